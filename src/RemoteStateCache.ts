@@ -1,5 +1,36 @@
 import { SimpleAsyncCache } from 'with-simple-caching';
 
+/**
+ * sets of members persisted in a cache, under keys of their own, whose members are each added and removed atomically
+ *
+ * relevance
+ * - lets the context index the keys of each query and the entries of each tag without a read-modify-write of the whole index, which concurrent writers would drop each other's members from
+ *
+ * note
+ * - sets are kept apart from the entries of the cache, so they are not returned by `get` or `keys`
+ * - e.g., redis sorted sets, scored by the moment each member expires
+ */
+export interface RemoteStateCacheSets {
+  /**
+   * adds a member to the set under a key, or refreshes its expiration if it is a member already
+   */
+  add: (
+    key: string,
+    member: string,
+    options?: { secondsUntilExpiration?: number },
+  ) => Promise<void>;
+
+  /**
+   * removes a member from the set under a key, if it is a member
+   */
+  remove: (key: string, member: string) => Promise<void>;
+
+  /**
+   * lists the members of the set under a key which have not expired
+   */
+  members: (key: string) => Promise<string[]>;
+}
+
 /**
  * any simple-cache can be used as a remote-state-cache as long as it also implements a `keys` method which returns all of the currently valid keys for the cache
  *
@@ -8,4 +39,12 @@ import { SimpleAsyncCache } from 'with-simple-caching';
  */
 export interface RemoteStateCache extends SimpleAsyncCache<string> {
   keys: () => Promise<string[]> | string[];
+
+  /**
+   * the sets persisted in the cache, if it supports them
+   *
+   * note
+   * - optional; without them, the context finds the keys of each query with a scan of `keys()`, instead of from an index
+   */
+  sets?: RemoteStateCacheSets;
 }
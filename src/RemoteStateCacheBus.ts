@@ -0,0 +1,92 @@
+import { RemoteStateCacheEventType } from './RemoteStateCacheEvent';
+
+/**
+ * a message broadcast over the bus, announcing that a cached entry was invalidated or updated by a peer
+ */
+export interface RemoteStateCacheBusMessage {
+  /**
+   * the id of the context which published the message
+   *
+   * note
+   * - used to ignore the messages a context published itself
+   */
+  origin: string;
+
+  /**
+   * what happened to the cached entry
+   */
+  type: RemoteStateCacheEventType.INVALIDATE | RemoteStateCacheEventType.UPDATE;
+
+  /**
+   * the name of the query which owns the entry
+   */
+  query: string;
+
+  /**
+   * the namespaced cache key of the entry
+   */
+  key: string;
+}
+
+/**
+ * a transport which delivers the messages of the bus between the contexts of separate processes
+ *
+ * note
+ * - transports may deliver a message back to the context which published it; contexts ignore their own messages
+ */
+export interface RemoteStateCacheBusTransport {
+  /**
+   * broadcasts a message to every subscriber of the bus
+   */
+  publish: (message: RemoteStateCacheBusMessage) => Promise<void>;
+
+  /**
+   * subscribes to the messages broadcast on the bus
+   *
+   * note
+   * - returns a method which unsubscribes
+   */
+  subscribe: (
+    onMessage: (message: RemoteStateCacheBusMessage) => void,
+  ) => () => void;
+}
+
+/**
+ * the options with which a context is connected to a bus
+ */
+export interface RemoteStateCacheBusOptions {
+  /**
+   * the transport to broadcast and receive messages with
+   */
+  transport: RemoteStateCacheBusTransport;
+
+  /**
+   * whether the cache of the context is shared with its peers
+   *
+   * note
+   * - defaults to `true`, in which case the peer already invalidated or updated the shared cache, so only in-process state (e.g., executions in flight, the local tier of a two-tier cache) is invalidated on receipt
+   * - if `false`, the entry is also invalidated in the cache of this context on receipt, including for updates, since the peer's update can not be replayed without its mutation
+   * - entries can only be invalidated in a static cache, since a cache pulled from input at runtime can not be resolved from a key
+   */
+  isCacheShared?: boolean;
+}
+
+/**
+ * checks whether a value received over a transport is a message of the bus
+ *
+ * relevance
+ * - transports receive raw bytes from other processes, which may be truncated, corrupt, or from an incompatible version; those must be dropped, rather than break the context which receives them
+ */
+export const isRemoteStateCacheBusMessage = (
+  value: unknown,
+): value is RemoteStateCacheBusMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Record<string, unknown>;
+  return (
+    typeof message.origin === 'string' &&
+    (message.type === RemoteStateCacheEventType.INVALIDATE ||
+      message.type === RemoteStateCacheEventType.UPDATE) &&
+    typeof message.query === 'string' &&
+    typeof message.key === 'string'
+  );
+};
@@ -2,6 +2,10 @@ import { LogicWithExtendableCachingAsync } from 'with-simple-caching';
 
 import { RemoteStateCache } from '.';
 import { WithRemoteStateQueryCachingOptions } from './RemoteStateQueryCachingOptions';
+import {
+  MutationWithRemoteStateRegistration,
+  WithRemoteStateMutationRegistrationOptions,
+} from './createRemoteStateCachingContext';
 
 /**
  * tracks all of the info required for managing the remote-state cache for a query
@@ -9,6 +13,7 @@ import { WithRemoteStateQueryCachingOptions } from './RemoteStateQueryCachingOpt
  * includes
  * - the queries name
  * - the query itself, wrapped with extended caching, so that we can execute, invalidate, and update it
+ * - a way to drop its executions in flight, so that we can invalidate mid-flight safely
  * - options that the query was provisioned with
  */
 export interface RemoteStateCacheContextQueryRegistration<
@@ -25,12 +30,61 @@ export interface RemoteStateCacheContextQueryRegistration<
    */
   query: LogicWithExtendableCachingAsync<L, C>;
 
+  /**
+   * drops the executions of the query which are in flight for a key, so that they can not write back a value read before the key was invalidated
+   */
+  dropExecutionsInFlight: (args: { forKey: string }) => void;
+
+  /**
+   * re-executes the query for an input, skipping the value currently cached, and caches its fresh output
+   */
+  refetch: (args: { forInput: Parameters<L> }) => Promise<void>;
+
+  /**
+   * caches an output of the query for an input, whether or not one is cached, as if the query had produced it
+   *
+   * note
+   * - expires per the `secondsUntilExpiration` of the query, unless overridden, e.g., to hydrate an entry with the expiration it had when dehydrated
+   */
+  seed: (args: {
+    forInput: Parameters<L>;
+    output: Awaited<ReturnType<L>>;
+    secondsUntilExpiration?: number;
+  }) => Promise<void>;
+
   /**
    * the remote-state caching options this query was registered with
    */
   options: WithRemoteStateQueryCachingOptions<L>;
 }
 
+/**
+ * tracks all of the info required for managing the remote-state cache interactions of a mutation
+ *
+ * includes
+ * - the mutations name
+ * - the mutation itself, registered with remote-state triggers, so that we can execute it
+ * - options that the mutation was provisioned with
+ */
+export interface RemoteStateCacheContextMutationRegistration<
+  L extends (...args: any[]) => any,
+> {
+  /**
+   * the name of the mutation
+   */
+  name: string;
+
+  /**
+   * the mutation with remote-state registration which can be used
+   */
+  mutation: MutationWithRemoteStateRegistration<L>;
+
+  /**
+   * the remote-state options this mutation was registered with
+   */
+  options: WithRemoteStateMutationRegistrationOptions<L>;
+}
+
 /**
  * the context within which remote state cache is managed
  *
@@ -46,7 +100,7 @@ export interface RemoteStateCacheContext {
       [index: string]: RemoteStateCacheContextQueryRegistration<any, any>; // note: we use a map here to ensure there's only one query with a given name at a time + to speed up lookups
     };
     mutations: {
-      // TODO
+      [index: string]: RemoteStateCacheContextMutationRegistration<any>; // note: we use a map here to ensure there's only one mutation with a given name at a time + to speed up lookups
     };
   };
 }
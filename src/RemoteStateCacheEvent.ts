@@ -0,0 +1,217 @@
+import { RemoteStateCacheLogger } from './RemoteStateCacheLogger';
+import {
+  MutationExecutionStatus,
+  RemoteStateQueryTriggerType,
+} from './RemoteStateQueryCachingOptions';
+
+/**
+ * enumerates the lifecycle events which can occur against the cache of a remote-state-query
+ */
+export enum RemoteStateCacheEventType {
+  /**
+   * the query was executed and its output was found in the cache
+   */
+  HIT = 'HIT',
+
+  /**
+   * the query was executed and its output was not found in the cache
+   */
+  MISS = 'MISS',
+
+  /**
+   * the output of the query was set into the cache
+   */
+  SET = 'SET',
+
+  /**
+   * the cached output of the query was invalidated
+   */
+  INVALIDATE = 'INVALIDATE',
+
+  /**
+   * the cached output of the query was updated
+   */
+  UPDATE = 'UPDATE',
+
+  /**
+   * a trigger of the query was fired by a mutation
+   */
+  TRIGGER_FIRED = 'TRIGGER_FIRED',
+
+  /**
+   * a cached output of the query failed the validator of the query, so it was invalidated
+   */
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+}
+
+/**
+ * the mutation which caused an event, if any
+ */
+export interface RemoteStateCacheEventMutationCause {
+  /**
+   * the name of the mutation
+   */
+  name: string;
+
+  /**
+   * the input the mutation was invoked with
+   */
+  input: any[];
+
+  /**
+   * the output the mutation produced
+   *
+   * note
+   * - this is null if the mutation threw an error
+   */
+  output: any | null;
+
+  /**
+   * the status of the execution of the mutation
+   */
+  status: MutationExecutionStatus;
+}
+
+/**
+ * an event which occurred against a specific key in the cache of a remote-state-query
+ */
+export interface RemoteStateCacheKeyEvent {
+  /**
+   * the name of the query whose cache the event occurred against
+   */
+  query: string;
+
+  /**
+   * the namespaced cache key the event occurred against
+   */
+  key: string;
+
+  /**
+   * the input the query was invoked with for this key, if known
+   *
+   * note
+   * - this is null when the event was requested by key, instead of by input
+   */
+  input: any[] | null;
+
+  /**
+   * the mutation which caused this event, if any
+   */
+  mutation: RemoteStateCacheEventMutationCause | null;
+
+  /**
+   * the id of the peer context which caused this event, if it was received over the bus
+   */
+  peer?: string;
+}
+
+/**
+ * an event which occurred when a trigger of a remote-state-query was fired by a mutation
+ */
+export interface RemoteStateCacheTriggerFiredEvent {
+  /**
+   * the name of the query whose trigger fired
+   */
+  query: string;
+
+  /**
+   * the type of trigger which fired
+   */
+  type: RemoteStateQueryTriggerType;
+
+  /**
+   * the mutation which fired the trigger
+   */
+  mutation: RemoteStateCacheEventMutationCause;
+
+  /**
+   * what the trigger declared was affected
+   */
+  affected: {
+    inputs: any[][];
+    keys: string[];
+  };
+}
+
+/**
+ * an event which occurred when a cached output of a remote-state-query failed the validator of the query
+ */
+export interface RemoteStateCacheValidationFailedEvent
+  extends RemoteStateCacheKeyEvent {
+  /**
+   * the reason the cached output failed the validator
+   */
+  error: Error;
+}
+
+/**
+ * subscribers to the lifecycle events of the cache within a remote-state caching context
+ *
+ * note
+ * - subscribers are invoked synchronously and their errors are caught, so that they can never break a cache operation
+ */
+export interface RemoteStateCacheEventSubscribers {
+  hit?: (event: RemoteStateCacheKeyEvent) => void;
+  miss?: (event: RemoteStateCacheKeyEvent) => void;
+  set?: (event: RemoteStateCacheKeyEvent) => void;
+  invalidate?: (event: RemoteStateCacheKeyEvent) => void;
+  update?: (event: RemoteStateCacheKeyEvent) => void;
+  triggerFired?: (event: RemoteStateCacheTriggerFiredEvent) => void;
+  validationFailed?: (event: RemoteStateCacheValidationFailedEvent) => void;
+}
+
+/**
+ * a method which emits a lifecycle event to the subscribers of a context
+ */
+export type RemoteStateCacheEventEmitter = <
+  T extends RemoteStateCacheEventType,
+>(
+  type: T,
+  event: T extends RemoteStateCacheEventType.TRIGGER_FIRED
+    ? RemoteStateCacheTriggerFiredEvent
+    : T extends RemoteStateCacheEventType.VALIDATION_FAILED
+    ? RemoteStateCacheValidationFailedEvent
+    : RemoteStateCacheKeyEvent,
+) => void;
+
+/**
+ * defines which subscriber receives each type of event
+ */
+const subscriberNameByEventType: {
+  [T in RemoteStateCacheEventType]: keyof RemoteStateCacheEventSubscribers;
+} = {
+  [RemoteStateCacheEventType.HIT]: 'hit',
+  [RemoteStateCacheEventType.MISS]: 'miss',
+  [RemoteStateCacheEventType.SET]: 'set',
+  [RemoteStateCacheEventType.INVALIDATE]: 'invalidate',
+  [RemoteStateCacheEventType.UPDATE]: 'update',
+  [RemoteStateCacheEventType.TRIGGER_FIRED]: 'triggerFired',
+  [RemoteStateCacheEventType.VALIDATION_FAILED]: 'validationFailed',
+};
+
+/**
+ * creates a method which emits lifecycle events to each set of subscribers of a context
+ */
+export const createRemoteStateCacheEventEmitter = ({
+  subscribers,
+  logger,
+}: {
+  subscribers: RemoteStateCacheEventSubscribers[];
+  logger: RemoteStateCacheLogger;
+}): RemoteStateCacheEventEmitter => {
+  return (type, event) =>
+    subscribers.forEach((on) => {
+      const subscriber = on[subscriberNameByEventType[type]] as
+        | ((event: any) => void)
+        | undefined;
+      if (!subscriber) return;
+      try {
+        subscriber(event);
+      } catch (error) {
+        logger.warn(
+          'a remote-state cache event subscriber threw an error. ignoring it, to ensure that subscribers can not break cache operations',
+          { type, error },
+        );
+      }
+    });
+};
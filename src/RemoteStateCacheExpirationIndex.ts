@@ -0,0 +1,58 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import { REMOTE_STATE_CACHE_RESERVED_PREFIX } from './RemoteStateCacheKeyCodec';
+
+/**
+ * the prefix of the cache keys under which the moment each cached entry expires is persisted
+ *
+ * note
+ * - the index is persisted in the cache itself, so that it is shared across every process which shares the cache
+ * - the prefix is reserved, so that no query can own these keys
+ */
+export const EXPIRATION_INDEX_KEY_PREFIX = `${REMOTE_STATE_CACHE_RESERVED_PREFIX}expires__`;
+
+/**
+ * defines the cache key under which the moment a cached entry expires is persisted
+ */
+export const getExpirationIndexKey = ({ key }: { key: string }): string =>
+  [EXPIRATION_INDEX_KEY_PREFIX, key].join('.');
+
+/**
+ * persists the moment, in milliseconds since epoch, at which a cached entry expires
+ *
+ * note
+ * - expires along with the entry, so it never outlives it
+ */
+export const setExpiresAtToIndex = async ({
+  cache,
+  key,
+  secondsUntilExpiration,
+}: {
+  cache: RemoteStateCache;
+  key: string;
+  secondsUntilExpiration: number;
+}): Promise<void> => {
+  await cache.set(
+    getExpirationIndexKey({ key }),
+    JSON.stringify(Date.now() + secondsUntilExpiration * 1000),
+    { secondsUntilExpiration },
+  );
+};
+
+/**
+ * gets the moment, in milliseconds since epoch, at which a cached entry expires
+ *
+ * note
+ * - returns undefined if it was not persisted (e.g., the query does not specify `secondsUntilExpiration`, so the entry expires per the defaults of the cache)
+ * - the moment is set when the query produces or seeds the entry, so an update which extends its expiration is not reflected, which only ever makes it earlier than the actual one
+ */
+export const getExpiresAtFromIndex = async ({
+  cache,
+  key,
+}: {
+  cache: RemoteStateCache;
+  key: string;
+}): Promise<number | undefined> => {
+  const cached = await cache.get(getExpirationIndexKey({ key }));
+  if (cached === undefined) return undefined;
+  return JSON.parse(cached);
+};
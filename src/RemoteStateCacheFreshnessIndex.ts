@@ -0,0 +1,54 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import { REMOTE_STATE_CACHE_RESERVED_PREFIX } from './RemoteStateCacheKeyCodec';
+
+/**
+ * the prefix of the cache keys under which the moment each cached entry goes stale is persisted
+ *
+ * note
+ * - the index is persisted in the cache itself, so that it is shared across every process which shares the cache
+ * - the prefix is reserved, so that no query can own these keys
+ */
+export const FRESHNESS_INDEX_KEY_PREFIX = `${REMOTE_STATE_CACHE_RESERVED_PREFIX}fresh__`;
+
+/**
+ * defines the cache key under which the moment a cached entry goes stale is persisted
+ */
+export const getFreshnessIndexKey = ({ key }: { key: string }): string =>
+  [FRESHNESS_INDEX_KEY_PREFIX, key].join('.');
+
+/**
+ * persists the moment, in milliseconds since epoch, at which a cached entry goes stale
+ */
+export const setStaleAtToIndex = async ({
+  cache,
+  key,
+  staleAt,
+  secondsUntilExpiration,
+}: {
+  cache: RemoteStateCache;
+  key: string;
+  staleAt: number;
+  secondsUntilExpiration?: number;
+}): Promise<void> => {
+  await cache.set(getFreshnessIndexKey({ key }), JSON.stringify(staleAt), {
+    secondsUntilExpiration,
+  });
+};
+
+/**
+ * gets the moment, in milliseconds since epoch, at which a cached entry goes stale
+ *
+ * note
+ * - returns undefined if it was not persisted (e.g., the entry was cached before stale-while-revalidate was enabled), in which case the entry is considered fresh until it expires
+ */
+export const getStaleAtFromIndex = async ({
+  cache,
+  key,
+}: {
+  cache: RemoteStateCache;
+  key: string;
+}): Promise<number | undefined> => {
+  const cached = await cache.get(getFreshnessIndexKey({ key }));
+  if (cached === undefined) return undefined;
+  return JSON.parse(cached);
+};
@@ -0,0 +1,175 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import { REMOTE_STATE_CACHE_RESERVED_PREFIX } from './RemoteStateCacheKeyCodec';
+import { createRemoteStateCacheValueCodecTyped } from './createRemoteStateCacheValueCodecTyped';
+
+/**
+ * a cached entry of a query, along with the input it was cached for
+ */
+export interface RemoteStateCacheInputEntry<I extends any[] = any[]> {
+  /**
+   * the namespaced cache key of the entry
+   */
+  key: string;
+
+  /**
+   * the original input the query was invoked with for this key
+   */
+  input: I;
+}
+
+/**
+ * the prefix of the cache keys under which the input of each cached entry is persisted
+ *
+ * note
+ * - the index is persisted in the cache itself, so that it is shared across every process which shares the cache
+ * - the prefix is reserved, so that no query can own these keys
+ */
+export const INPUT_INDEX_KEY_PREFIX = `${REMOTE_STATE_CACHE_RESERVED_PREFIX}input__`;
+
+/**
+ * the codec with which the inputs of cached entries are persisted
+ *
+ * relevance
+ * - the key of an entry is serialized from its input, and triggers are given its input, so an input must decode to exactly what it was, including the types json does not support (e.g., a `Date` must not decode as a string)
+ *
+ * note
+ * - reads the inputs persisted as plain json, before the codec was adopted, too
+ */
+export const remoteStateCacheInputCodec =
+  createRemoteStateCacheValueCodecTyped();
+
+/**
+ * defines the cache key under which the input of a cached entry is persisted
+ */
+export const getInputIndexKey = ({ key }: { key: string }): string =>
+  [INPUT_INDEX_KEY_PREFIX, key].join('.');
+
+/**
+ * defines the key of the set in which the inputs of the cached entries of a query are tracked, if the cache supports sets
+ *
+ * note
+ * - tracked per namespace of the query, so that each version of a query, in each namespace, has its own set
+ */
+export const getInputIndexSetKey = ({
+  namespace,
+}: {
+  namespace: string;
+}): string => [INPUT_INDEX_KEY_PREFIX, namespace].join('.');
+
+/**
+ * the shape in which the input of a cached entry is tracked as a member of the set of its query
+ */
+interface RemoteStateCacheInputIndexMember {
+  key: string;
+  input: string; // note: serialized by the codec of the index
+}
+
+/**
+ * persists the input a cached entry was produced for, next to it
+ *
+ * note
+ * - if the cache supports sets, the input is tracked as a member of the set of its query, so that the inputs of every entry of the query can be read at once; otherwise, it is persisted under a key of its own
+ * - inputs which can not be serialized (e.g., which reference themselves) are not persisted, since they could not be decoded faithfully
+ */
+export const setInputToIndex = async ({
+  cache,
+  namespace,
+  key,
+  input,
+  secondsUntilExpiration,
+}: {
+  cache: RemoteStateCache;
+  namespace: string;
+  key: string;
+  input: any[];
+  secondsUntilExpiration?: number;
+}): Promise<void> => {
+  const serialized = (() => {
+    try {
+      return remoteStateCacheInputCodec.serialize(input);
+    } catch {
+      return undefined;
+    }
+  })();
+  if (serialized === undefined) return;
+  if (cache.sets) {
+    const member: RemoteStateCacheInputIndexMember = { key, input: serialized };
+    return cache.sets.add(
+      getInputIndexSetKey({ namespace }),
+      JSON.stringify(member),
+      { secondsUntilExpiration },
+    ); // expires along with the entry
+  }
+  await cache.set(getInputIndexKey({ key }), serialized, {
+    secondsUntilExpiration,
+  });
+};
+
+/**
+ * decodes an input persisted by the index
+ *
+ * note
+ * - returns null if it is not an input persisted by this index
+ */
+const decodeInput = (serialized: string): any[] | null => {
+  const input: unknown = remoteStateCacheInputCodec.deserialize(serialized);
+  return Array.isArray(input) ? input : null;
+};
+
+/**
+ * gets the inputs of each of the given cached entries of a query, for those whose inputs were persisted
+ *
+ * note
+ * - if the cache supports sets, reads the inputs of every entry of the query at once, rather than one read per entry
+ * - the inputs tracked for entries which are no longer cached, e.g., since they were invalidated, are removed from the set as they are found; each is checked against the cache again once removed, and tracked again if its entry was cached in between
+ */
+export const getInputsFromIndex = async ({
+  cache,
+  namespace,
+  keys,
+}: {
+  cache: RemoteStateCache;
+  namespace: string;
+  keys: string[];
+}): Promise<RemoteStateCacheInputEntry[]> => {
+  // read the inputs of every entry at once, if the cache supports sets
+  if (cache.sets) {
+    const { sets } = cache;
+    const keysCached = new Set(keys);
+    const members = await sets.members(getInputIndexSetKey({ namespace }));
+    const entries = await Promise.all(
+      members.map(async (member) => {
+        const { key, input: serialized } = JSON.parse(
+          member,
+        ) as RemoteStateCacheInputIndexMember;
+        if (!keysCached.has(key)) {
+          await sets.remove(getInputIndexSetKey({ namespace }), member);
+          if ((await cache.get(key)) === undefined) return null;
+          await sets.add(getInputIndexSetKey({ namespace }), member); // the expiration of the entry is unknown here, so it is tracked until it is found to be gone
+        }
+        const input = decodeInput(serialized);
+        return input ? { key, input } : null;
+      }),
+    );
+    const entriesFound = entries.filter(
+      (entry): entry is RemoteStateCacheInputEntry => entry !== null,
+    );
+    return entriesFound.filter(
+      (entry, index) =>
+        entriesFound.findIndex(({ key }) => key === entry.key) === index,
+    ); // an entry may be tracked with several equivalent inputs, e.g., with their keys in another order, which serialize to the same key
+  }
+
+  // otherwise, read the input of each entry from its own key
+  const entries = await Promise.all(
+    keys.map(async (key) => {
+      const cached = await cache.get(getInputIndexKey({ key }));
+      if (cached === undefined) return null;
+      const input = decodeInput(cached);
+      return input ? { key, input } : null;
+    }),
+  );
+  return entries.filter(
+    (entry): entry is RemoteStateCacheInputEntry => entry !== null,
+  );
+};
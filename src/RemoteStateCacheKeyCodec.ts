@@ -0,0 +1,198 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
+
+/**
+ * the delimiter between the namespace of a query and the key it serialized for an input
+ *
+ * note
+ * - query names may not include this delimiter, which is what makes it unambiguous
+ * - this is the same delimiter keys have always been namespaced with, so caches written before the codec existed are read as-is
+ */
+export const REMOTE_STATE_CACHE_KEY_DELIMITER = '.';
+
+/**
+ * the delimiter between the name of a query and its version, within the namespace of its keys
+ *
+ * note
+ * - query names may not include this delimiter, so the version of a key can be parsed unambiguously
+ */
+export const REMOTE_STATE_CACHE_VERSION_DELIMITER = '@';
+
+/**
+ * the prefix reserved for the keys the context itself persists in the cache (e.g., indexes)
+ */
+export const REMOTE_STATE_CACHE_RESERVED_PREFIX = '__';
+
+/**
+ * the parts of a namespaced cache key
+ */
+export interface RemoteStateCacheKeyParts {
+  /**
+   * the name of the query which owns the key
+   */
+  query: string;
+
+  /**
+   * the version of the query which owns the key, if the query is versioned
+   */
+  version?: string;
+
+  /**
+   * the key the query serialized for an input
+   */
+  key: string;
+}
+
+/**
+ * a codec which formats and parses the namespaced cache keys of queries
+ *
+ * relevance
+ * - gives each query its own namespace in a shared cache
+ * - enables unambiguously matching a cached key to the query which owns it (e.g., `getUser` does not own the keys of `getUserByEmail`)
+ */
+export interface RemoteStateCacheKeyCodec {
+  /**
+   * formats the namespaced cache key for a key of a query
+   */
+  format: (parts: RemoteStateCacheKeyParts) => string;
+
+  /**
+   * parses a namespaced cache key into its parts
+   *
+   * note
+   * - returns null if the key was not namespaced by a query, or was namespaced by a query of another namespace
+   */
+  parse: (namespacedKey: string) => RemoteStateCacheKeyParts | null;
+
+  /**
+   * formats the namespace which every cache key of a version of a query starts with
+   *
+   * relevance
+   * - identifies the keys of a version of a query, e.g., to track them in an index
+   */
+  formatQueryNamespace: (
+    parts: Pick<RemoteStateCacheKeyParts, 'query' | 'version'>,
+  ) => string;
+}
+
+/**
+ * creates a codec for the namespaced cache keys of queries, within the given namespace
+ *
+ * relevance
+ * - lets several applications or stages share one cache without reading each other's keys, e.g., `['recipes-api', 'prod']`
+ *
+ * note
+ * - keys are formatted as `${...namespace}.${query}@${version}.${key}`, or `${...namespace}.${query}.${key}` if the query is not versioned
+ * - with no namespace, unversioned keys are formatted as `${query}.${key}`, which is the format keys have always been written in
+ */
+export const createRemoteStateCacheKeyCodec = ({
+  namespace = [],
+}: {
+  /**
+   * the segments which prefix every key of the codec
+   */
+  namespace?: string[];
+} = {}): RemoteStateCacheKeyCodec => {
+  // sanity check that each segment can be parsed unambiguously
+  namespace.forEach((segment) => {
+    if (
+      !segment ||
+      segment.includes(REMOTE_STATE_CACHE_KEY_DELIMITER) ||
+      segment.startsWith(REMOTE_STATE_CACHE_RESERVED_PREFIX)
+    )
+      throw new BadRequestError(
+        `a namespace segment of the remote-state cache must be non-empty, may not include the key namespace delimiter, '${REMOTE_STATE_CACHE_KEY_DELIMITER}', and may not start with the reserved prefix, '${REMOTE_STATE_CACHE_RESERVED_PREFIX}'. otherwise, cache keys would be ambiguous`,
+        { segment, namespace },
+      );
+  });
+  const prefix = namespace
+    .map((segment) => `${segment}${REMOTE_STATE_CACHE_KEY_DELIMITER}`)
+    .join('');
+
+  const formatQueryNamespace: RemoteStateCacheKeyCodec['formatQueryNamespace'] =
+    ({ query, version }) =>
+      `${prefix}${
+        version === undefined
+          ? query
+          : [query, version].join(REMOTE_STATE_CACHE_VERSION_DELIMITER)
+      }`;
+  return {
+    formatQueryNamespace,
+    format: ({ query, version, key }) =>
+      [formatQueryNamespace({ query, version }), key].join(
+        REMOTE_STATE_CACHE_KEY_DELIMITER,
+      ),
+    parse: (namespacedKey) => {
+      if (!namespacedKey.startsWith(prefix)) return null; // the key of another namespace
+      const unprefixed = namespacedKey.slice(prefix.length);
+      const indexOfDelimiter = unprefixed.indexOf(
+        REMOTE_STATE_CACHE_KEY_DELIMITER,
+      );
+      if (indexOfDelimiter < 1) return null;
+      const queryVersioned = unprefixed.slice(0, indexOfDelimiter);
+      if (queryVersioned.startsWith(REMOTE_STATE_CACHE_RESERVED_PREFIX))
+        return null; // a key the context persists itself, not the key of a query
+      const key = unprefixed.slice(
+        indexOfDelimiter + REMOTE_STATE_CACHE_KEY_DELIMITER.length,
+      );
+      const indexOfVersion = queryVersioned.indexOf(
+        REMOTE_STATE_CACHE_VERSION_DELIMITER,
+      );
+      if (indexOfVersion < 0) return { query: queryVersioned, key };
+      return {
+        query: queryVersioned.slice(0, indexOfVersion),
+        version: queryVersioned.slice(
+          indexOfVersion + REMOTE_STATE_CACHE_VERSION_DELIMITER.length,
+        ),
+        key,
+      };
+    },
+  };
+};
+
+/**
+ * the default codec for the namespaced cache keys of queries, without a namespace
+ */
+export const defaultRemoteStateCacheKeyCodec: RemoteStateCacheKeyCodec =
+  createRemoteStateCacheKeyCodec();
+
+/**
+ * asserts that the version of a query can be used as an unambiguous part of the namespace of its cache keys
+ */
+export const assertIsValidQueryVersion = ({
+  name,
+  version,
+}: {
+  name: string;
+  version: string;
+}): void => {
+  if (!version || version.includes(REMOTE_STATE_CACHE_KEY_DELIMITER))
+    throw new BadRequestError(
+      `a query was attempted to be registered to remote-state caching with a version which is empty or includes the key namespace delimiter, '${REMOTE_STATE_CACHE_KEY_DELIMITER}'. this would make its cache keys ambiguous, so we do not allow this`,
+      { name, version },
+    );
+};
+
+/**
+ * asserts that the name of a query can be used as an unambiguous namespace for its cache keys
+ */
+export const assertIsValidQueryNamespace = ({
+  name,
+}: {
+  name: string;
+}): void => {
+  if (name.includes(REMOTE_STATE_CACHE_KEY_DELIMITER))
+    throw new BadRequestError(
+      `a query was attempted to be registered to remote-state caching with a name which includes the key namespace delimiter, '${REMOTE_STATE_CACHE_KEY_DELIMITER}'. this would make its cache keys ambiguous, so we do not allow this`,
+      { name },
+    );
+  if (name.includes(REMOTE_STATE_CACHE_VERSION_DELIMITER))
+    throw new BadRequestError(
+      `a query was attempted to be registered to remote-state caching with a name which includes the version delimiter, '${REMOTE_STATE_CACHE_VERSION_DELIMITER}'. this would make the versions of its cache keys ambiguous, so we do not allow this`,
+      { name },
+    );
+  if (name.startsWith(REMOTE_STATE_CACHE_RESERVED_PREFIX))
+    throw new BadRequestError(
+      `a query was attempted to be registered to remote-state caching with a name which starts with the reserved prefix, '${REMOTE_STATE_CACHE_RESERVED_PREFIX}'. this prefix is reserved for the keys the context persists itself, so we do not allow this`,
+      { name },
+    );
+};
@@ -0,0 +1,159 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import {
+  REMOTE_STATE_CACHE_RESERVED_PREFIX,
+  RemoteStateCacheKeyCodec,
+} from './RemoteStateCacheKeyCodec';
+import { isRemoteStateCacheTwoTier } from './createRemoteStateCacheTwoTier';
+
+/**
+ * the prefix of the cache keys under which the key index of each query is persisted
+ *
+ * note
+ * - the index is persisted in the cache itself, so that it is shared across every process which shares the cache
+ * - the prefix is reserved, so that no query can own these keys
+ */
+export const KEY_INDEX_KEY_PREFIX = `${REMOTE_STATE_CACHE_RESERVED_PREFIX}key__`;
+
+/**
+ * defines the cache key under which the keys cached for a query are tracked
+ *
+ * note
+ * - tracked per namespace of the query, so that each version of a query, in each namespace, has its own index
+ * - the keys are tracked in the set under this key, and the entry under this key marks that the set was built
+ */
+export const getKeyIndexKey = ({ namespace }: { namespace: string }): string =>
+  [KEY_INDEX_KEY_PREFIX, namespace].join('.');
+
+/**
+ * resolves the cache the key indexes are persisted in
+ *
+ * note
+ * - for a two-tier cache, the remote tier, since the local tier of each process would serve a stale index for as long as it keeps it
+ */
+const getCacheForIndex = (cache: RemoteStateCache): RemoteStateCache =>
+  isRemoteStateCacheTwoTier(cache) ? cache.remote : cache;
+
+/**
+ * gets the keys currently cached for a query from its key index, or null if it can not be used
+ *
+ * note
+ * - null if the cache does not support sets, or if the index was not built yet, e.g., for a cache written before the index existed
+ * - the keys are not checked against the cache one by one, since that would cost a read per key on every mutation; instead, each key expires from the index along with its entry, and is removed from it when its entry is invalidated
+ * - so a key whose entry was evicted early (e.g., by the limits of an lru cache) may still be listed, until it is invalidated or expires, which only makes a trigger invalidate an entry which is already gone
+ */
+export const getKeysFromIndex = async ({
+  cache,
+  namespace,
+}: {
+  cache: RemoteStateCache;
+  namespace: string;
+}): Promise<string[] | null> => {
+  const cacheForIndex = getCacheForIndex(cache);
+  if (!cacheForIndex.sets) return null;
+  const isBuilt =
+    (await cacheForIndex.get(getKeyIndexKey({ namespace }))) !== undefined;
+  if (!isBuilt) return null;
+  return cacheForIndex.sets.members(getKeyIndexKey({ namespace }));
+};
+
+/**
+ * finds the keys of a query from the keys of the cache, building its key index from them, if the cache supports sets
+ *
+ * note
+ * - the keys are given as a method, so that the scan of the cache, which is expensive, can be shared across the indexes of every query
+ * - keys set while the index is built are tracked by their writers, so the index is never missing a key
+ */
+export const rebuildKeyIndex = async ({
+  cache,
+  namespace,
+  getKeys,
+  keyCodec,
+  secondsUntilExpiration,
+}: {
+  cache: RemoteStateCache;
+  namespace: string;
+  getKeys: () => Promise<string[]>;
+  keyCodec: RemoteStateCacheKeyCodec;
+  secondsUntilExpiration: number | undefined;
+}): Promise<string[]> => {
+  const keys = (await getKeys()).filter((key) => {
+    const parts = keyCodec.parse(key);
+    return !!parts && keyCodec.formatQueryNamespace(parts) === namespace;
+  }); // keys are namespaced by query name and version
+  const cacheForIndex = getCacheForIndex(cache);
+  if (!cacheForIndex.sets) return keys; // without sets, the keys are found with a scan each time
+  await Promise.all(
+    keys.map((key) =>
+      cacheForIndex.sets!.add(getKeyIndexKey({ namespace }), key, {
+        secondsUntilExpiration,
+      }),
+    ), // the expiration of scanned keys is unknown, so they are tracked for as long as the query caches its entries, which is never earlier than they expire
+  );
+  await cacheForIndex.set(
+    getKeyIndexKey({ namespace }),
+    JSON.stringify({ builtAt: new Date().toISOString() }),
+  );
+  return keys;
+};
+
+/**
+ * tracks that a key of a query was set or invalidated, in its key index
+ *
+ * note
+ * - tracked whether or not the index was built yet, so that keys set while it is built are not missed
+ * - each key is added and removed atomically, so concurrent writers, from any number of processes, never drop each other's keys
+ */
+const setKeyToIndex = async ({
+  cache,
+  namespace,
+  key,
+  secondsUntilExpiration,
+  isInvalidated,
+}: {
+  cache: RemoteStateCache;
+  namespace: string;
+  key: string;
+  secondsUntilExpiration: number | undefined;
+  isInvalidated: boolean;
+}): Promise<void> => {
+  const { sets } = getCacheForIndex(cache);
+  if (!sets) return;
+  if (isInvalidated) return sets.remove(getKeyIndexKey({ namespace }), key);
+  return sets.add(getKeyIndexKey({ namespace }), key, {
+    secondsUntilExpiration,
+  }); // expires along with the key, including per the defaults of the cache
+};
+
+/**
+ * extends a cache to maintain the key index of each query, as keys of queries are set and invalidated through it
+ *
+ * relevance
+ * - lets mutations find the keys cached for a query without a scan of every key in the cache
+ *
+ * note
+ * - the keys the context persists itself (e.g., indexes) are not tracked
+ * - every other property of the cache is kept, e.g., the tiers of a two-tier cache
+ */
+export const getCacheWithKeyIndex = <C extends RemoteStateCache>({
+  cache,
+  keyCodec,
+}: {
+  cache: C;
+  keyCodec: RemoteStateCacheKeyCodec;
+}): C => ({
+  ...cache,
+  get: (key) => cache.get(key),
+  keys: () => cache.keys(),
+  set: async (key, value, options) => {
+    await cache.set(key, value, options);
+    const parts = keyCodec.parse(key);
+    if (!parts) return; // not the key of a query of this namespace
+    await setKeyToIndex({
+      cache,
+      namespace: keyCodec.formatQueryNamespace(parts),
+      key,
+      secondsUntilExpiration: options?.secondsUntilExpiration,
+      isInvalidated: value === undefined,
+    });
+  },
+});
@@ -0,0 +1,67 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import {
+  REMOTE_STATE_CACHE_RESERVED_PREFIX,
+  RemoteStateCacheKeyCodec,
+} from './RemoteStateCacheKeyCodec';
+
+/**
+ * the prefix of the cache keys under which each canonical key which supersedes a legacy key is marked
+ *
+ * note
+ * - the index is persisted in the cache itself, so that it is shared across every process which shares the cache
+ * - the prefix is reserved, so that no query can own these keys
+ */
+export const LEGACY_KEY_INDEX_KEY_PREFIX = `${REMOTE_STATE_CACHE_RESERVED_PREFIX}superseded__`;
+
+/**
+ * defines the cache key under which a canonical key is marked as superseding the legacy key of its input
+ */
+export const getLegacyKeyIndexKey = ({ key }: { key: string }): string =>
+  [LEGACY_KEY_INDEX_KEY_PREFIX, key].join('.');
+
+/**
+ * checks whether the legacy key of an input was superseded by its canonical key, i.e., whether the canonical key was set or invalidated since the rollout of canonical keys began
+ */
+export const isLegacyKeySuperseded = async ({
+  cache,
+  key,
+}: {
+  cache: RemoteStateCache;
+  key: string;
+}): Promise<boolean> =>
+  (await cache.get(getLegacyKeyIndexKey({ key }))) !== undefined;
+
+/**
+ * extends a cache to mark each canonical key of the given queries as superseding its legacy key, as it is set or invalidated through it
+ *
+ * relevance
+ * - while legacy keys are read, an invalidation or update of an input only reaches its canonical key, since most of the context only knows the canonical key; without the mark, the next miss would read the value from before it, from the legacy key
+ *
+ * note
+ * - the mark expires along with the entries of the query, since a legacy entry can not outlive them
+ */
+export const getCacheWithLegacyKeysSuperseded = <C extends RemoteStateCache>({
+  cache,
+  keyCodec,
+  getQueryReadingLegacyKeys,
+}: {
+  cache: C;
+  keyCodec: RemoteStateCacheKeyCodec;
+  getQueryReadingLegacyKeys: (args: {
+    query: string;
+  }) => { secondsUntilExpiration?: number } | null;
+}): C => ({
+  ...cache,
+  set: async (key, value, options) => {
+    await cache.set(key, value, options);
+    const parts = keyCodec.parse(key);
+    if (!parts) return; // not the key of a query of this namespace
+    const query = getQueryReadingLegacyKeys({ query: parts.query });
+    if (!query) return; // the query does not read legacy keys, so they need not be superseded
+    await cache.set(
+      getLegacyKeyIndexKey({ key }),
+      JSON.stringify({ supersededAt: new Date().toISOString() }),
+      { secondsUntilExpiration: query.secondsUntilExpiration },
+    );
+  },
+});
@@ -0,0 +1,20 @@
+/**
+ * a logger, to which a remote-state caching context reports the failures it recovers from
+ *
+ * relevance
+ * - lets the failures be routed to the logger of the application, or silenced, e.g., in tests which expect them
+ */
+export interface RemoteStateCacheLogger {
+  /**
+   * reports a failure which the context recovered from, e.g., a background refetch which failed
+   */
+  warn: (message: string, metadata: unknown) => void;
+}
+
+/**
+ * the default logger, which reports to the console
+ */
+export const defaultRemoteStateCacheLogger: RemoteStateCacheLogger = {
+  // eslint-disable-next-line no-console
+  warn: (message, metadata) => console.warn(message, metadata),
+};
@@ -0,0 +1,49 @@
+/**
+ * a cached entry of a query, dehydrated into a portable form
+ */
+export interface RemoteStateCacheSnapshotEntry {
+  /**
+   * the name of the query the entry was cached by
+   */
+  query: string;
+
+  /**
+   * the version of the query the entry was cached by, if it is versioned
+   */
+  version?: string;
+
+  /**
+   * the input the query was invoked with for the entry
+   *
+   * note
+   * - the cache key is not included, since it is serialized from the input again on hydration, in the namespace of the context hydrated into
+   * - encoded by the typed value codec, so that the types json does not support decode to exactly what they were (e.g., a `Date` is encoded as `{ "$type": "Date", "value": "..." }`), since the key is serialized from them
+   */
+  input: any[];
+
+  /**
+   * the output of the query for the input, serialized as it was persisted in the cache
+   */
+  value: string;
+
+  /**
+   * the moment, in milliseconds since epoch, at which the entry expires
+   *
+   * note
+   * - null if it is not known, in which case the entry is hydrated with the `secondsUntilExpiration` of the query
+   */
+  expiresAt: number | null;
+}
+
+/**
+ * a portable snapshot of the cached entries of some queries of a remote-state caching context, which can be hydrated into the cache of another
+ *
+ * relevance
+ * - lets a server-rendered page ship the data it read to the cache of the client, and lets integration tests seed fixtures without the real remote calls
+ *
+ * note
+ * - is plain json, so it can be persisted or sent as-is with `JSON.stringify`
+ */
+export interface RemoteStateCacheSnapshot {
+  entries: RemoteStateCacheSnapshotEntry[];
+}
@@ -0,0 +1,154 @@
+import shajs from 'sha.js';
+
+import { RemoteStateCache } from './RemoteStateCache';
+import { REMOTE_STATE_CACHE_RESERVED_PREFIX } from './RemoteStateCacheKeyCodec';
+
+/**
+ * a reference to a cached entry of a query, tracked in the tag index
+ */
+export interface RemoteStateCacheTaggedEntry {
+  /**
+   * the name of the query which produced the entry
+   */
+  query: string;
+
+  /**
+   * the namespaced cache key of the entry
+   */
+  key: string;
+}
+
+/**
+ * the prefix of the cache keys under which the tag index is persisted
+ *
+ * note
+ * - the index is persisted in the cache itself, so that it is shared across every process which shares the cache
+ * - the prefix is reserved, so that no query can own these keys
+ */
+export const TAG_INDEX_KEY_PREFIX = `${REMOTE_STATE_CACHE_RESERVED_PREFIX}tag__`;
+
+/**
+ * defines the cache key under which the entries tagged with a given tag are tracked
+ *
+ * note
+ * - tags may contain any characters, so the key is composed of a safe preview of the tag and a hash of it, to be valid in every cache
+ */
+export const getTagIndexKey = ({ tag }: { tag: string }): string =>
+  [
+    TAG_INDEX_KEY_PREFIX,
+    tag.replace(/[^0-9a-z_]/gi, '_').slice(0, 50), // display a preview of the tag
+    shajs('sha256').update(tag).digest('hex'), // add a unique token, from the hashed tag
+  ].join('.');
+
+/**
+ * defines the cache key under which one entry tagged with a tag is tracked, for caches which do not support sets
+ *
+ * note
+ * - prefixed by the key of the tag, so that the entries of a tag can be found by a scan of the keys of the cache
+ */
+const getTaggedEntryKey = ({
+  tag,
+  entry,
+}: {
+  tag: string;
+  entry: RemoteStateCacheTaggedEntry;
+}): string => [getTagIndexKey({ tag }), entry.key].join('.');
+
+/**
+ * gets all of the entries tracked for a tag
+ *
+ * note
+ * - from the set of the tag, if the cache supports sets; otherwise, from a scan of the keys of the cache
+ */
+export const getEntriesFromTagIndex = async ({
+  cache,
+  tag,
+}: {
+  cache: RemoteStateCache;
+  tag: string;
+}): Promise<RemoteStateCacheTaggedEntry[]> => {
+  if (cache.sets)
+    return (await cache.sets.members(getTagIndexKey({ tag }))).map(
+      (member) => JSON.parse(member) as RemoteStateCacheTaggedEntry,
+    );
+  const prefix = `${getTagIndexKey({ tag })}.`;
+  const keysOfEntries = (await cache.keys()).filter((key) =>
+    key.startsWith(prefix),
+  );
+  const entries = await Promise.all(
+    keysOfEntries.map(async (key) => {
+      const cached = await cache.get(key);
+      if (cached === undefined) return null; // the entry expired or was removed since the scan
+      return JSON.parse(cached) as RemoteStateCacheTaggedEntry;
+    }),
+  );
+  return entries.filter(
+    (entry): entry is RemoteStateCacheTaggedEntry => entry !== null,
+  );
+};
+
+/**
+ * tracks that an entry carries each of the given tags
+ *
+ * note
+ * - each entry is tracked apart from the others, as a member of the set of the tag or as a key of its own, so concurrent writers never drop each other's entries
+ * - each entry is tracked only until the entry itself expires, so the index does not outgrow the entries it tracks
+ */
+export const addEntryToTagIndex = async ({
+  cache,
+  tags,
+  entry,
+  secondsUntilExpiration,
+}: {
+  cache: RemoteStateCache;
+  tags: string[];
+  entry: RemoteStateCacheTaggedEntry;
+  secondsUntilExpiration?: number;
+}): Promise<void> => {
+  await Promise.all(
+    [...new Set(tags)].map(async (tag) => {
+      const tracked: RemoteStateCacheTaggedEntry = {
+        query: entry.query,
+        key: entry.key,
+      };
+      if (cache.sets)
+        return cache.sets.add(
+          getTagIndexKey({ tag }),
+          JSON.stringify(tracked),
+          { secondsUntilExpiration },
+        );
+      return cache.set(
+        getTaggedEntryKey({ tag, entry }),
+        JSON.stringify(tracked),
+        { secondsUntilExpiration },
+      );
+    }),
+  );
+};
+
+/**
+ * stops tracking the given entries for a tag, e.g., once they were invalidated
+ *
+ * note
+ * - only the given entries are removed, so that the entries tagged since they were read are still tracked
+ */
+export const removeEntriesFromTagIndex = async ({
+  cache,
+  tag,
+  entries,
+}: {
+  cache: RemoteStateCache;
+  tag: string;
+  entries: RemoteStateCacheTaggedEntry[];
+}): Promise<void> => {
+  await Promise.all(
+    entries.map((entry) =>
+      cache.sets
+        ? cache.sets.remove(
+            getTagIndexKey({ tag }),
+            JSON.stringify({ query: entry.query, key: entry.key }),
+          )
+        : cache.set(getTaggedEntryKey({ tag, entry }), undefined),
+    ),
+  );
+};
@@ -0,0 +1,66 @@
+/**
+ * a codec which serializes the outputs of queries into the values persisted in the cache, and deserializes them back
+ */
+export interface RemoteStateCacheValueCodec {
+  /**
+   * serializes an output of a query into the value to persist in the cache
+   */
+  serialize: (output: any) => string;
+
+  /**
+   * deserializes a value persisted in the cache back into the output of the query
+   */
+  deserialize: (cached: string) => any;
+}
+
+/**
+ * a codec for the instances of a class, which lets a typed value codec round-trip them
+ *
+ * for example
+ * ```ts
+ * const moneyCodec: RemoteStateCacheValueClassCodec<Money> = {
+ *   name: 'Money',
+ *   class: Money,
+ *   encode: (money) => ({ amount: money.amount, currency: money.currency }),
+ *   decode: (encoded) => new Money(encoded as { amount: number; currency: string }),
+ * };
+ * ```
+ */
+export interface RemoteStateCacheValueClassCodec<T> {
+  /**
+   * the name the instances of the class are tagged with in the cache
+   *
+   * note
+   * - must be unique across the class codecs of a value codec, and stable across deployments, since it is persisted
+   */
+  name: string;
+
+  /**
+   * the class whose instances this codec applies to
+   */
+  class: new (...args: any[]) => T;
+
+  /**
+   * encodes an instance into a value which the typed codec can serialize
+   *
+   * note
+   * - the value may itself include the types the typed codec supports (e.g., dates, or instances of other registered classes)
+   */
+  encode: (instance: T) => unknown;
+
+  /**
+   * decodes the value an instance was encoded into, back into an instance
+   */
+  decode: (encoded: unknown) => T;
+}
+
+/**
+ * the default codec for the values persisted in the cache, which is plain json
+ *
+ * note
+ * - types json does not support do not round-trip, e.g., a `Date` is deserialized as a string
+ */
+export const defaultRemoteStateCacheValueCodec: RemoteStateCacheValueCodec = {
+  serialize: (output) => JSON.stringify(output),
+  deserialize: (cached) => JSON.parse(cached),
+};
@@ -1,8 +1,20 @@
-import { WithSimpleCachingOptions } from 'with-simple-caching';
+import {
+  KeySerializationMethod,
+  WithSimpleCachingOptions,
+} from 'with-simple-caching';
 
+import { RemoteStateCacheInputEntry } from './RemoteStateCacheInputIndex';
 import { MutationWithRemoteStateRegistration } from './createRemoteStateCachingContext';
 
 export enum MutationExecutionStatus {
+  /**
+   * the mutation has not yet executed
+   *
+   * note
+   * - triggers are evaluated in this status before the mutation runs, so there is no output yet
+   */
+  PENDING = 'PENDING',
+
   /**
    * the mutation successfully executed and resolved a value
    */
@@ -14,6 +26,224 @@ export enum MutationExecutionStatus {
   REJECTED = 'REJECTED',
 }
 
+/**
+ * enumerates the phases of the execution of a mutation in which triggers can be evaluated
+ */
+export enum MutationExecutionPhase {
+  /**
+   * before the mutation runs
+   *
+   * relevance
+   * - invalidating before the mutation runs ensures the cache is not left stale if the runtime is terminated part way through the mutation
+   */
+  BEFORE = 'BEFORE',
+
+  /**
+   * after the mutation resolved
+   */
+  AFTER_RESOLVE = 'AFTER_RESOLVE',
+
+  /**
+   * after the mutation rejected
+   */
+  AFTER_REJECT = 'AFTER_REJECT',
+}
+
+/**
+ * the phase in which triggers are evaluated for each status of the execution of a mutation
+ */
+export const MUTATION_EXECUTION_PHASE_BY_STATUS: {
+  [S in MutationExecutionStatus]: MutationExecutionPhase;
+} = {
+  [MutationExecutionStatus.PENDING]: MutationExecutionPhase.BEFORE,
+  [MutationExecutionStatus.RESOLVED]: MutationExecutionPhase.AFTER_RESOLVE,
+  [MutationExecutionStatus.REJECTED]: MutationExecutionPhase.AFTER_REJECT,
+};
+
+/**
+ * enumerates the types of triggers which can be added to a remote-state-query
+ */
+export enum RemoteStateQueryTriggerType {
+  /**
+   * the trigger invalidates the cached response of the query
+   */
+  INVALIDATION = 'INVALIDATION',
+
+  /**
+   * the trigger updates the cached response of the query
+   */
+  UPDATE = 'UPDATE',
+
+  /**
+   * the trigger optimistically updates the cached response of the query, before the mutation runs
+   */
+  OPTIMISTIC_UPDATE = 'OPTIMISTIC_UPDATE',
+
+  /**
+   * the trigger seeds the cached response of the query, whether or not one is cached, once the mutation resolves
+   */
+  SEED = 'SEED',
+}
+
+/**
+ * enumerates the modes with which the inputs of queries can be serialized into cache keys
+ */
+export enum RemoteStateCacheKeySerializationMode {
+  /**
+   * serialize inputs canonically, so that equal inputs always produce the same key
+   */
+  CANONICAL = 'CANONICAL',
+
+  /**
+   * serialize inputs canonically, and on a miss, read the output cached under the legacy key of the input, moving it to the canonical key
+   *
+   * relevance
+   * - keeps the entries cached by the legacy method warm while rolling out the canonical method
+   */
+  CANONICAL_WITH_LEGACY_READS = 'CANONICAL_WITH_LEGACY_READS',
+
+  /**
+   * serialize inputs with the legacy method, which hashes `JSON.stringify` of the input
+   *
+   * note
+   * - equal inputs with keys in a different order produce different keys, and types json does not support throw or collapse together
+   */
+  LEGACY = 'LEGACY',
+}
+
+/**
+ * enumerates the policies with which the failures of a query's triggers can be handled
+ *
+ * note
+ * - a trigger fails if its `affects` or `update` callback throws, or if the cache throws while applying it
+ */
+export enum RemoteStateTriggerFailurePolicy {
+  /**
+   * throw the failures, aggregated in a TriggerExecutionError, once every trigger of the phase has run
+   *
+   * note
+   * - if a trigger fails before the mutation runs, the mutation does not run, since the cache could not be prepared for it
+   * - if the mutation itself rejected, its own error is thrown instead, and the failures are logged
+   */
+  THROW = 'THROW',
+
+  /**
+   * log the failures, and continue as if the triggers had succeeded
+   */
+  LOG_AND_CONTINUE = 'LOG_AND_CONTINUE',
+
+  /**
+   * log the failures, and fall back to invalidating every cached entry of the query, as a best effort to not serve stale values
+   */
+  INVALIDATE_QUERY = 'INVALIDATE_QUERY',
+}
+
+/**
+ * enumerates the strategies with which optimistic updates can be rolled back, when the mutation rejects
+ */
+export enum RemoteStateQueryOptimisticRollbackStrategy {
+  /**
+   * restore the cached values from before the optimistic update
+   */
+  RESTORE = 'RESTORE',
+
+  /**
+   * invalidate the cached values, so that they are fetched fresh on next query
+   */
+  INVALIDATE = 'INVALIDATE',
+}
+
+/**
+ * enumerates the strategies with which an invalidation trigger can invalidate the cached entries it affects
+ */
+export enum RemoteStateQueryInvalidationStrategy {
+  /**
+   * delete the cached values, so that they are fetched fresh on next query
+   */
+  DELETE = 'DELETE',
+
+  /**
+   * mark the cached values as stale, so that they are still served on next query while they are revalidated in the background
+   *
+   * note
+   * - only applies to queries which enable stale-while-revalidate; for others, the cached values are deleted
+   */
+  MARK_STALE = 'MARK_STALE',
+}
+
+/**
+ * enumerates the modes with which invalidated entries can be refetched
+ */
+export enum RemoteStateQueryRefetchMode {
+  /**
+   * the mutation waits for the refetches to complete before it returns
+   */
+  AWAITED = 'AWAITED',
+
+  /**
+   * the refetches run in the background, after the mutation returns
+   */
+  BACKGROUND = 'BACKGROUND',
+}
+
+/**
+ * the options with which an invalidation trigger refetches the entries it invalidated
+ */
+export interface RemoteStateQueryRefetchOptions {
+  /**
+   * whether the mutation waits for the refetches to complete
+   */
+  mode: RemoteStateQueryRefetchMode;
+
+  /**
+   * the maximum number of refetches to run at the same time
+   *
+   * note
+   * - defaults to `DEFAULT_REFETCH_CONCURRENCY`
+   */
+  concurrency?: number;
+}
+
+/**
+ * the default maximum number of refetches to run at the same time, per trigger
+ */
+export const DEFAULT_REFETCH_CONCURRENCY = 5;
+
+/**
+ * the options with which a query serves stale cached values while it revalidates them
+ */
+export interface RemoteStateQueryStaleWhileRevalidateOptions {
+  /**
+   * the number of seconds a cached value is fresh for
+   *
+   * note
+   * - once stale, the cached value is still returned immediately, while one refresh is started in the background to replace it
+   * - the cached value is still only served until it expires, per `secondsUntilExpiration`, after which it is a miss as usual
+   */
+  secondsUntilStale: number;
+}
+
+/**
+ * a selection of the cached entries of a query which were affected by a mutation
+ */
+export interface RemoteStateQueryAffectedSelection<
+  Q extends (...args: any) => any,
+> {
+  /**
+   * the inputs which were affected
+   *
+   * note
+   * - can be a predicate, which selects every currently cached entry whose original input it returns true for
+   *   - e.g., `inputs: (input) => input[0].accountId === accountId`
+   */
+  inputs?: Parameters<Q>[] | ((input: Parameters<Q>) => boolean);
+
+  /**
+   * the keys which were affected
+   */
+  keys?: string[];
+}
+
 /**
  * an invalidation trigger for the cache of a remote-state-query
  * - allows the user to specify which keys become invalid when a specific mutation fires
@@ -32,12 +262,39 @@ export interface RemoteStateQueryInvalidationTrigger<
    */
   mutation: MutationWithRemoteStateRegistration<M>;
 
+  /**
+   * the phases of the mutation's execution in which this trigger should be evaluated
+   *
+   * note
+   * - defaults to every phase
+   * - e.g., set `[MutationExecutionPhase.AFTER_RESOLVE]` on an `updatedBy` trigger which needs the mutation's output
+   */
+  phases?: MutationExecutionPhase[];
+
+  /**
+   * how to invalidate the cached entries this trigger affects
+   *
+   * note
+   * - defaults to `DELETE`
+   */
+  strategy?: RemoteStateQueryInvalidationStrategy;
+
+  /**
+   * re-executes the query for the entries this trigger invalidated, so that the next reader does not pay the full latency
+   *
+   * note
+   * - only entries whose original input is known can be refetched, i.e., those selected by input, or by key if the input was indexed
+   * - entries are only refetched after the mutation completes, since refetching before it would read the state it is about to change
+   */
+  refetch?: RemoteStateQueryRefetchOptions;
+
   /**
    * a method which specifies which cache keys for the query were affected by this triggered mutation
    *
    * gives you all the context needed to conviniently specify which keys of the query were affected
    * - provides the input and output of the mutation which triggered this
    * - provides the list of all currently cached query strings
+   * - provides the decoded input of each currently cached query string, when known
    */
   affects: (args: {
     /**
@@ -48,21 +305,29 @@ export interface RemoteStateQueryInvalidationTrigger<
      * the output the triggering mutation produced
      *
      * note
-     * - this may be null if the mutation threw an error
+     * - this may be null if the mutation threw an error or has not yet executed
      */
     mutationOutput: Awaited<ReturnType<M>> | null;
     /**
      * the status of the execution
      */
     mutationStatus: MutationExecutionStatus;
+    /**
+     * the phase of the execution this trigger is being evaluated in
+     */
+    mutationPhase: MutationExecutionPhase;
     /**
      * specifies all of the keys that are currently cached
      */
     cachedQueryKeys: string[];
-  }) => {
-    inputs?: Parameters<Q>[];
-    keys?: string[];
-  };
+    /**
+     * specifies the original input of each of the keys that are currently cached
+     *
+     * note
+     * - only includes the keys whose input could be persisted (i.e., was serializable to json)
+     */
+    cachedQueryInputs: RemoteStateCacheInputEntry<Parameters<Q>>[];
+  }) => RemoteStateQueryAffectedSelection<Q>;
 }
 
 /**
@@ -75,7 +340,10 @@ export interface RemoteStateQueryInvalidationTrigger<
 export interface RemoteStateQueryUpdateTrigger<
   Q extends (...args: any) => any,
   M extends (...args: any) => any,
-> extends RemoteStateQueryInvalidationTrigger<Q, M> {
+> extends Omit<
+    RemoteStateQueryInvalidationTrigger<Q, M>,
+    'strategy' | 'refetch'
+  > {
   /**
    * a method which specifies which how to update the cached value of query output from current value for a particular mutation
    *
@@ -105,17 +373,226 @@ export interface RemoteStateQueryUpdateTrigger<
        * the output the triggering mutation produced
        *
        * note
-       * - this may be null if the mutation threw an error
+       * - this may be null if the mutation threw an error or has not yet executed
        */
       mutationOutput: Awaited<ReturnType<M>> | null;
       /**
        * the status of the execution
        */
       mutationStatus: MutationExecutionStatus;
+      /**
+       * the phase of the execution this trigger is being evaluated in
+       */
+      mutationPhase: MutationExecutionPhase;
     };
   }) => ReturnType<Q>;
 }
 
+/**
+ * an optimistic update trigger for the cache of a remote-state-query
+ * - allows the user to specify which keys are to be updated, from the mutation input, before the mutation runs
+ * - allows the user to specify how to reconcile those keys with the real mutation output, once it resolves
+ * - rolls back the optimistic update automatically if the mutation rejects
+ *
+ * relevance
+ * - enables reads to reflect writes immediately, without waiting for the remote round trip
+ */
+export interface RemoteStateQueryOptimisticUpdateTrigger<
+  Q extends (...args: any) => any,
+  M extends (...args: any) => any,
+> {
+  /**
+   * a reference to the mutation which triggers this
+   */
+  mutation: MutationWithRemoteStateRegistration<M>;
+
+  /**
+   * a method which specifies which cache keys for the query will be affected by this triggered mutation
+   *
+   * note
+   * - this is evaluated before the mutation runs, so only the mutation input is available
+   */
+  affects: (args: {
+    /**
+     * the input the triggering mutation was invoked with
+     */
+    mutationInput: Parameters<M>;
+    /**
+     * specifies all of the keys that are currently cached
+     */
+    cachedQueryKeys: string[];
+    /**
+     * specifies the original input of each of the keys that are currently cached
+     */
+    cachedQueryInputs: RemoteStateCacheInputEntry<Parameters<Q>>[];
+  }) => RemoteStateQueryAffectedSelection<Q>;
+
+  /**
+   * a method which specifies how to optimistically update the cached value of the query output, from the mutation input
+   */
+  update: (args: {
+    from: {
+      /**
+       * the current cached output of the query
+       */
+      cachedQueryOutput: ReturnType<Q>;
+    };
+    with: {
+      /**
+       * the input the triggering mutation was invoked with
+       */
+      mutationInput: Parameters<M>;
+    };
+  }) => ReturnType<Q>;
+
+  /**
+   * a method which specifies how to reconcile the optimistically updated value of the query output with the real mutation output, once the mutation resolves
+   *
+   * note
+   * - if not specified, the optimistically updated values are invalidated once the mutation resolves, so that the real state is fetched on next query
+   */
+  reconcile?: (args: {
+    from: {
+      /**
+       * the current, optimistically updated, cached output of the query
+       */
+      cachedQueryOutput: ReturnType<Q>;
+    };
+    with: {
+      /**
+       * the input the triggering mutation was invoked with
+       */
+      mutationInput: Parameters<M>;
+      /**
+       * the output the triggering mutation resolved
+       */
+      mutationOutput: Awaited<ReturnType<M>>;
+    };
+  }) => ReturnType<Q>;
+
+  /**
+   * how to roll back the optimistic update, if the mutation rejects
+   *
+   * note
+   * - defaults to `RESTORE`
+   */
+  onReject?: RemoteStateQueryOptimisticRollbackStrategy;
+}
+
+/**
+ * a cached output of a query to seed, for an input
+ */
+export interface RemoteStateQuerySeed<Q extends (...args: any) => any> {
+  /**
+   * the input of the query to seed the cached output for
+   */
+  forInput: Parameters<Q>;
+
+  /**
+   * the output of the query to cache for the input
+   */
+  output: Awaited<ReturnType<Q>>;
+}
+
+/**
+ * a trigger which seeds the cached output of a query, for certain inputs, from a mutation
+ *
+ * relevance
+ * - an update can only transform an output which is already cached, so it can not populate an entry; a seed writes the entry whether or not it exists
+ *
+ * for example
+ * - seed `getCampaign({ id })` from the output of `createCampaign`, since it already contains the full record
+ *
+ * note
+ * - fires only once the mutation resolves, since seeds are usually computed from its output
+ * - a seeded output is indexed as if the query had produced it, e.g., by input and by tags
+ */
+export interface RemoteStateQuerySeedTrigger<
+  Q extends (...args: any) => any,
+  M extends (...args: any) => any,
+> {
+  /**
+   * a reference to the mutation which triggers this
+   */
+  mutation: MutationWithRemoteStateRegistration<M>;
+
+  /**
+   * a method which specifies the outputs of the query to cache, and the inputs to cache each for
+   */
+  seeds: (args: {
+    /**
+     * the input the triggering mutation was invoked with
+     */
+    mutationInput: Parameters<M>;
+    /**
+     * the output the triggering mutation resolved
+     */
+    mutationOutput: Awaited<ReturnType<M>>;
+  }) => RemoteStateQuerySeed<Q>[];
+}
+
+/**
+ * a method which declares the tags carried by a cached output of a query
+ *
+ * for example
+ * - `({ input }) => [`account:${input[0].accountId}`]`
+ * - `({ output }) => output.map((campaign) => `campaign:${campaign.id}`)`
+ */
+export type RemoteStateQueryTagsMethod<Q extends (...args: any) => any> =
+  (args: {
+    /**
+     * the input the query was invoked with
+     */
+    input: Parameters<Q>;
+    /**
+     * the output the query produced
+     */
+    output: Awaited<ReturnType<Q>>;
+  }) => string[];
+
+/**
+ * a validator of the outputs of a query, which the cached outputs of the query must pass to be used
+ *
+ * note
+ * - either a predicate, which returns whether the output is valid, or a schema with a `parse` method, which throws if the output is invalid (e.g., a zod schema)
+ *
+ * for example
+ * - `(output) => Array.isArray(output)`
+ * - `z.array(recipeSchema)`
+ */
+export type RemoteStateQueryOutputValidator =
+  | ((output: unknown) => boolean | Promise<boolean>)
+  | { parse: (output: unknown) => unknown };
+
+/**
+ * a method which declares the tags touched by an execution of a mutation
+ *
+ * note
+ * - every cached query output which carries one of these tags will be invalidated, regardless of which query produced it
+ */
+export type RemoteStateMutationTagsMethod<M extends (...args: any) => any> =
+  (args: {
+    /**
+     * the input the mutation was invoked with
+     */
+    mutationInput: Parameters<M>;
+    /**
+     * the output the mutation produced
+     *
+     * note
+     * - this may be null if the mutation threw an error or has not yet resolved
+     */
+    mutationOutput: Awaited<ReturnType<M>> | null;
+    /**
+     * the status of the execution
+     */
+    mutationStatus: MutationExecutionStatus;
+    /**
+     * the phase of the execution the tags are being evaluated in
+     */
+    mutationPhase: MutationExecutionPhase;
+  }) => string[];
+
 /**
  * options for the remote-state-query-cache which maximize performance+accuracy
  *
@@ -144,6 +621,70 @@ export interface WithRemoteStateQueryCachingOptions<
    */
   updatedBy: RemoteStateQueryUpdateTrigger<Q, any>[];
 
+  /**
+   * specifies how to optimistically update the cached response of the query, for certain inputs, before one of these triggers' mutations runs
+   *
+   * for example
+   * - optimistically add the new campaign to `getAllCampaigns` when `createCampaign` is fired, before the remote round trip completes
+   */
+  optimisticallyUpdatedBy: RemoteStateQueryOptimisticUpdateTrigger<Q, any>[];
+
+  /**
+   * specifies how to seed the cached response of the query, for certain inputs, when one of these triggers' mutations resolves, whether or not a response is cached
+   *
+   * for example
+   * - seed `getCampaign` when `createCampaign` resolves, with the campaign it created
+   */
+  seededBy: RemoteStateQuerySeedTrigger<Q, any>[];
+
+  /**
+   * the number of seconds the cached response of the query is valid for
+   *
+   * note
+   * - we use this to be able to restore cached values, e.g., on optimistic update rollback, with the same expiration as the query
+   */
+  secondsUntilExpiration?: number;
+
+  /**
+   * the options with which the query serves stale cached values while it revalidates them, if enabled
+   *
+   * note
+   * - we use this to know whether an invalidation can mark a cached value as stale, instead of deleting it
+   */
+  staleWhileRevalidate?: RemoteStateQueryStaleWhileRevalidateOptions;
+
+  /**
+   * the policy with which the failures of the query's triggers are handled
+   */
+  triggerFailurePolicy: RemoteStateTriggerFailurePolicy;
+
+  /**
+   * the validator the cached outputs of the query must pass to be used, if any
+   *
+   * note
+   * - we use this to be able to validate a cached output before letting the user update it in the updatedBy trigger
+   */
+  validator?: RemoteStateQueryOutputValidator;
+
+  /**
+   * the version of the query, if it is versioned
+   *
+   * note
+   * - we use this to be able to find the keys of the version of the query which is registered
+   */
+  version?: string;
+
+  /**
+   * the options passed to WithSimpleCaching for serialization
+   *
+   * note
+   * - this is the key serialization method, namespaced to the query
+   * - we use this to be able to define the key that an input-specified invalidation or update affected
+   */
+  serialize: {
+    key: KeySerializationMethod<Parameters<Q>>;
+  };
+
   /**
    * the options passed to WithSimpleCaching for deserialization
    *
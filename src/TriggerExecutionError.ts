@@ -0,0 +1,82 @@
+import { HelpfulError } from '@ehmpathy/error-fns';
+
+import { RemoteStateCacheEventMutationCause } from './RemoteStateCacheEvent';
+import {
+  MutationExecutionPhase,
+  RemoteStateQueryTriggerType,
+  RemoteStateTriggerFailurePolicy,
+} from './RemoteStateQueryCachingOptions';
+
+/**
+ * a failure of the triggers of a query, fired by a mutation
+ */
+export interface RemoteStateTriggerFailure {
+  /**
+   * the name of the query whose trigger failed
+   *
+   * note
+   * - null if the failure could not be attributed to one query, e.g., if the tag index of a tag touched by the mutation could not be read
+   */
+  query: string | null;
+
+  /**
+   * the name of the mutation which fired the trigger
+   */
+  mutation: string;
+
+  /**
+   * the phase of the mutation in which the trigger failed
+   */
+  phase: MutationExecutionPhase;
+
+  /**
+   * the type of the trigger which failed
+   *
+   * note
+   * - invalidations by tag are reported as invalidations of the query which produced the entry
+   */
+  type: RemoteStateQueryTriggerType;
+
+  /**
+   * the policy the failure was handled with
+   */
+  policy: RemoteStateTriggerFailurePolicy;
+
+  /**
+   * the error the trigger failed with
+   */
+  error: Error;
+}
+
+/**
+ * an error which aggregates every failure of the triggers fired by a mutation
+ *
+ * note
+ * - if the mutation resolved, its output is still available on `mutation.output`, since the write it made did happen
+ */
+export class TriggerExecutionError extends HelpfulError {
+  public mutation: RemoteStateCacheEventMutationCause;
+
+  public failures: RemoteStateTriggerFailure[];
+
+  constructor({
+    mutation,
+    failures,
+  }: {
+    mutation: RemoteStateCacheEventMutationCause;
+    failures: RemoteStateTriggerFailure[];
+  }) {
+    super(
+      `${failures.length} remote-state trigger(s) fired by the mutation '${mutation.name}' failed`,
+      {
+        mutation: { name: mutation.name, status: mutation.status },
+        failures: failures.map(({ error, ...failure }) => ({
+          ...failure,
+          error: error.message,
+        })),
+      },
+    );
+    this.mutation = mutation;
+    this.failures = failures;
+  }
+}
@@ -0,0 +1,17 @@
+import {
+  REMOTE_STATE_CACHE_CONFORMANCE_CHECKS,
+  RemoteStateCacheConformanceInput,
+} from '../checkRemoteStateCacheConformance';
+
+/**
+ * declares a test for each check which every remote-state cache adapter must pass
+ */
+export const describeRemoteStateCacheConformance = ({
+  name,
+  ...input
+}: RemoteStateCacheConformanceInput & { name: string }): void =>
+  describe(`${name} conformance`, () => {
+    REMOTE_STATE_CACHE_CONFORMANCE_CHECKS.forEach(({ description, check }) =>
+      it(description, () => check(input)),
+    );
+  });
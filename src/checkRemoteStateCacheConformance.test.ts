@@ -0,0 +1,53 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
+
+import { RemoteStateCache } from './RemoteStateCache';
+import { checkRemoteStateCacheConformance } from './checkRemoteStateCacheConformance';
+import { createRemoteStateCacheInMemory } from './createRemoteStateCacheInMemory';
+
+describe('checkRemoteStateCacheConformance', () => {
+  it('should resolve for a cache which conforms', async () => {
+    await checkRemoteStateCacheConformance({
+      getNewCache: () => createRemoteStateCacheInMemory(),
+    });
+  });
+  it('should reject, listing the failed checks, for a cache whose keys include expired entries', async () => {
+    const getNewCache = (): RemoteStateCache => {
+      const cache = createRemoteStateCacheInMemory();
+      const keysEverSet = new Set<string>();
+      return {
+        ...cache,
+        set: async (key, value, options) => {
+          if (value !== undefined) keysEverSet.add(key);
+          else keysEverSet.delete(key);
+          await cache.set(key, value, options);
+        },
+        keys: () => [...keysEverSet], // forgets to exclude expired keys
+      };
+    };
+    const error = await checkRemoteStateCacheConformance({ getNewCache }).catch(
+      (thrown) => thrown,
+    );
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect(error.message).toContain('failed 1 of');
+    expect(error.message).toContain(
+      'keys should exclude the entries which expired',
+    );
+  });
+  it('should reject for a cache which does not treat a set of undefined as an invalidation', async () => {
+    const getNewCache = (): RemoteStateCache => {
+      const cache = createRemoteStateCacheInMemory();
+      return {
+        ...cache,
+        set: (key, value, options) =>
+          cache.set(key, value ?? 'undefined', options), // persists undefined as a value
+      };
+    };
+    const error = await checkRemoteStateCacheConformance({ getNewCache }).catch(
+      (thrown) => thrown,
+    );
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect(error.message).toContain(
+      'get of a key which was invalidated should return undefined',
+    );
+  });
+});
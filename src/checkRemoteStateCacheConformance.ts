@@ -0,0 +1,370 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
+
+import { RemoteStateCache } from './RemoteStateCache';
+
+/**
+ * the input with which a cache is checked for conformance
+ */
+export interface RemoteStateCacheConformanceInput {
+  /**
+   * returns a new cache to check
+   *
+   * note
+   * - each cache returned must have no entries, and must be isolated from the caches returned before (e.g., a new directory, table, or namespace)
+   */
+  getNewCache: () => RemoteStateCache | Promise<RemoteStateCache>;
+
+  /**
+   * the shortest expiration the cache supports, in seconds
+   *
+   * note
+   * - defaults to 0.1 seconds
+   * - set this for caches which expire entries at a coarser granularity (e.g., whole seconds); the checks wait a little longer than this for entries to expire
+   */
+  shortestSecondsUntilExpiration?: number;
+}
+
+/**
+ * a check of one part of the contract which the context relies on from a remote-state cache
+ */
+export interface RemoteStateCacheConformanceCheck {
+  /**
+   * what the check asserts, phrased as a test title
+   */
+  description: string;
+
+  /**
+   * runs the check against a new cache
+   *
+   * note
+   * - rejects with a BadRequestError if the cache does not conform
+   */
+  check: (input: RemoteStateCacheConformanceInput) => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * asserts that the cache conformed on one expectation
+ */
+const assertConformance = (
+  conforms: boolean,
+  expectation: string,
+  metadata: Record<string, unknown>,
+): void => {
+  if (!conforms)
+    throw new BadRequestError(
+      `the cache does not conform to the remote-state cache contract: ${expectation}`,
+      metadata,
+    );
+};
+
+/**
+ * asserts that the cache returns exactly the expected keys, in any order
+ */
+const assertKeysConform = async (
+  cache: RemoteStateCache,
+  expected: string[],
+  expectation: string,
+): Promise<void> => {
+  const keys = [...(await cache.keys())].sort();
+  assertConformance(
+    JSON.stringify(keys) === JSON.stringify([...expected].sort()),
+    expectation,
+    { keys, expected },
+  );
+};
+
+/**
+ * the checks of the contract which the context relies on from a remote-state cache
+ *
+ * relevance
+ * - the context finds the entries to invalidate or update through `keys()`, or through the sets of the cache if it supports them, so a cache which returns expired keys or misses fresh ones silently breaks triggers
+ * - lets the authors of custom caches verify them against the same contract the built-in caches are checked against
+ *
+ * note
+ * - framework agnostic: each check rejects on failure, so it can be registered as a test in any test runner
+ *
+ * for example
+ * ```ts
+ * REMOTE_STATE_CACHE_CONFORMANCE_CHECKS.forEach(({ description, check }) =>
+ *   it(description, () => check({ getNewCache: () => createMyCache() })),
+ * );
+ * ```
+ */
+export const REMOTE_STATE_CACHE_CONFORMANCE_CHECKS: RemoteStateCacheConformanceCheck[] =
+  [
+    {
+      description: 'should return undefined for a key which was never set',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        const value = await cache.get('never-set');
+        assertConformance(
+          value === undefined,
+          'get of a key which was never set should return undefined',
+          { value },
+        );
+        await assertKeysConform(
+          cache,
+          [],
+          'keys of a new cache should be empty',
+        );
+      },
+    },
+    {
+      description: 'should return the value which was last set for a key',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        await cache.set('recipes.chocolate', '{"title":"chocolate cake"}');
+        const valueSet = await cache.get('recipes.chocolate');
+        assertConformance(
+          valueSet === '{"title":"chocolate cake"}',
+          'get should return the value which was set',
+          { value: valueSet },
+        );
+        await cache.set('recipes.chocolate', '{"title":"chocolate mousse"}');
+        const valueReset = await cache.get('recipes.chocolate');
+        assertConformance(
+          valueReset === '{"title":"chocolate mousse"}',
+          'get should return the value which was set last',
+          { value: valueReset },
+        );
+      },
+    },
+    {
+      description: 'should invalidate a key when undefined is set for it',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        await cache.set('recipes.chocolate', '{"title":"chocolate cake"}');
+        await cache.set('recipes.chocolate', undefined);
+        const value = await cache.get('recipes.chocolate');
+        assertConformance(
+          value === undefined,
+          'get of a key which was invalidated should return undefined',
+          { value },
+        );
+        await assertKeysConform(
+          cache,
+          [],
+          'keys should exclude a key which was invalidated',
+        );
+        await cache.set('never-set', undefined); // should not throw, since the context invalidates keys without checking whether they were set
+        await cache.set('recipes.chocolate', '{"title":"chocolate cake"}');
+        await assertKeysConform(
+          cache,
+          ['recipes.chocolate'],
+          'keys should include a key which was set again after it was invalidated',
+        );
+      },
+    },
+    {
+      description: 'should return every valid key, and only the valid keys',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        await cache.set('recipes.chocolate', 'a');
+        await cache.set('recipes.vanilla', 'b');
+        await cache.set('recipes.strawberry', 'c');
+        await cache.set('recipes.vanilla', undefined);
+        await assertKeysConform(
+          cache,
+          ['recipes.chocolate', 'recipes.strawberry'],
+          'keys should include every key which was set and not invalidated',
+        );
+      },
+    },
+    {
+      description: 'should support keys with any characters',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        const keys = [
+          '__tag__.recipes',
+          'queryGetRecipes.{"searchFor":"cake/pie"}',
+          'with spaces, colons: and \\ slashes',
+          'ünïcödé 🍰',
+        ];
+        for (const key of keys) await cache.set(key, key);
+        for (const key of keys) {
+          const value = await cache.get(key);
+          assertConformance(
+            value === key,
+            'get should return the value which was set for a key with special characters',
+            { key, value },
+          );
+        }
+        await assertKeysConform(
+          cache,
+          keys,
+          'keys should return keys with special characters exactly as they were set',
+        );
+      },
+    },
+    {
+      description:
+        'should not return entries once they expired, from get or keys',
+      check: async ({
+        getNewCache,
+        shortestSecondsUntilExpiration = 0.1,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        await cache.set('recipes.chocolate', 'a', {
+          secondsUntilExpiration: shortestSecondsUntilExpiration,
+        });
+        await cache.set('recipes.vanilla', 'b', {
+          secondsUntilExpiration: shortestSecondsUntilExpiration + 60,
+        });
+        const valueBefore = await cache.get('recipes.chocolate');
+        assertConformance(
+          valueBefore === 'a',
+          'get should return the value of an entry which has not expired yet',
+          { value: valueBefore },
+        );
+        await sleep(shortestSecondsUntilExpiration * 1500);
+        const valueAfter = await cache.get('recipes.chocolate');
+        assertConformance(
+          valueAfter === undefined,
+          'get should return undefined for an entry which expired',
+          { value: valueAfter },
+        );
+        await assertKeysConform(
+          cache,
+          ['recipes.vanilla'],
+          'keys should exclude the entries which expired, and include those which have not',
+        );
+      },
+    },
+    {
+      description: 'should keep every entry written concurrently',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        const keys = Array.from({ length: 20 }, (_, index) => `key.${index}`);
+        await Promise.all(keys.map((key) => cache.set(key, key)));
+        await assertKeysConform(
+          cache,
+          keys,
+          'keys should include every key written concurrently',
+        );
+      },
+    },
+    {
+      description:
+        'should resolve concurrent writes of the same key to one of the written values',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        const values = Array.from(
+          { length: 10 },
+          (_, index) => `value.${index}`,
+        );
+        await Promise.all(values.map((value) => cache.set('contested', value)));
+        const value = await cache.get('contested');
+        assertConformance(
+          values.includes(value as string),
+          'get should return one of the values written concurrently to a key',
+          { value },
+        );
+        await assertKeysConform(
+          cache,
+          ['contested'],
+          'keys should include a key written concurrently exactly once',
+        );
+      },
+    },
+    {
+      description:
+        'should add, remove, and expire the members of sets apart from the entries, if it supports sets',
+      check: async ({
+        getNewCache,
+        shortestSecondsUntilExpiration = 0.1,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        if (!cache.sets) return; // sets are optional
+        await cache.sets.add('recipes', 'chocolate');
+        await cache.sets.add('recipes', 'vanilla');
+        await cache.sets.add('recipes', 'chocolate'); // adding a member again should not duplicate it
+        await cache.sets.add('recipes', 'strawberry', {
+          secondsUntilExpiration: shortestSecondsUntilExpiration,
+        });
+        await cache.sets.remove('recipes', 'vanilla');
+        await cache.sets.remove('recipes', 'never-added'); // should not throw, since the context removes members without checking whether they were added
+        await sleep(shortestSecondsUntilExpiration * 1500);
+        const members = [...(await cache.sets.members('recipes'))].sort();
+        assertConformance(
+          JSON.stringify(members) === JSON.stringify(['chocolate']),
+          'members should include every member which was added, and not removed nor expired',
+          { members },
+        );
+        const membersOfNewSet = await cache.sets.members('never-added');
+        assertConformance(
+          membersOfNewSet.length === 0,
+          'members of a set which was never added to should be empty',
+          { members: membersOfNewSet },
+        );
+        await assertKeysConform(
+          cache,
+          [],
+          'keys should not include the keys of sets',
+        );
+      },
+    },
+    {
+      description:
+        'should keep every member added concurrently to a set, if it supports sets',
+      check: async ({
+        getNewCache,
+      }: RemoteStateCacheConformanceInput): Promise<void> => {
+        const cache = await getNewCache();
+        if (!cache.sets) return; // sets are optional
+        const members = Array.from(
+          { length: 20 },
+          (_, index) => `member.${index}`,
+        );
+        await Promise.all(
+          members.map((member) => cache.sets!.add('contested', member)),
+        );
+        const found = [...(await cache.sets.members('contested'))].sort();
+        assertConformance(
+          JSON.stringify(found) === JSON.stringify([...members].sort()),
+          'members should include every member added concurrently',
+          { members: found },
+        );
+      },
+    },
+  ];
+
+/**
+ * checks a cache against every part of the contract which the context relies on from a remote-state cache
+ *
+ * note
+ * - runs every check, then rejects with a BadRequestError which lists each check the cache failed
+ * - prefer registering each of the REMOTE_STATE_CACHE_CONFORMANCE_CHECKS as its own test, if your test runner reports per test
+ */
+export const checkRemoteStateCacheConformance = async (
+  input: RemoteStateCacheConformanceInput,
+): Promise<void> => {
+  const failures: { description: string; reason: string }[] = [];
+  for (const { description, check } of REMOTE_STATE_CACHE_CONFORMANCE_CHECKS) {
+    try {
+      await check(input);
+    } catch (error) {
+      failures.push({ description, reason: (error as Error).message });
+    }
+  }
+  if (failures.length)
+    throw new BadRequestError(
+      `the cache does not conform to the remote-state cache contract. it failed ${failures.length} of ${REMOTE_STATE_CACHE_CONFORMANCE_CHECKS.length} checks`,
+      { failures },
+    );
+};
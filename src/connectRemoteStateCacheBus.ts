@@ -0,0 +1,63 @@
+import {
+  RemoteStateCacheBusMessage,
+  RemoteStateCacheBusOptions,
+} from './RemoteStateCacheBus';
+import {
+  RemoteStateCacheEventSubscribers,
+  RemoteStateCacheEventType,
+  RemoteStateCacheKeyEvent,
+} from './RemoteStateCacheEvent';
+import { RemoteStateCacheLogger } from './RemoteStateCacheLogger';
+
+/**
+ * connects a context to a bus, to broadcast the invalidations and updates it makes and to receive those its peers make
+ *
+ * note
+ * - returns event subscribers which publish each invalidation and update, so that every way the context can invalidate or update an entry is broadcast
+ * - events which were themselves received from a peer are not published again, to avoid echoing them around the bus
+ */
+export const connectRemoteStateCacheBus = ({
+  bus,
+  origin,
+  onMessage,
+  logger,
+}: {
+  bus: RemoteStateCacheBusOptions;
+  origin: string;
+  logger: RemoteStateCacheLogger;
+  onMessage: (message: RemoteStateCacheBusMessage) => Promise<void>;
+}): { subscribers: RemoteStateCacheEventSubscribers } => {
+  // receive the messages of peers
+  bus.transport.subscribe((message) => {
+    if (message.origin === origin) return; // ignore our own messages
+    onMessage(message).catch((error) => {
+      logger.warn(
+        'a remote-state cache context failed to apply a message received from a peer over the bus. ignoring it, to ensure that peers can not break this context',
+        { message, error },
+      );
+    });
+  });
+
+  // define how to publish our own messages
+  const publish =
+    (
+      type:
+        | RemoteStateCacheEventType.INVALIDATE
+        | RemoteStateCacheEventType.UPDATE,
+    ) =>
+    ({ query, key, peer }: RemoteStateCacheKeyEvent) => {
+      if (peer) return; // dont echo the messages received from peers
+      bus.transport.publish({ origin, type, query, key }).catch((error) => {
+        logger.warn(
+          'a remote-state cache context failed to publish a message to its peers over the bus. ignoring it, to ensure that the bus can not break cache operations',
+          { type, query, key, error },
+        );
+      });
+    };
+  return {
+    subscribers: {
+      invalidate: publish(RemoteStateCacheEventType.INVALIDATE),
+      update: publish(RemoteStateCacheEventType.UPDATE),
+    },
+  };
+};
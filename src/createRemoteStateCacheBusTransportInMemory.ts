@@ -0,0 +1,34 @@
+import {
+  RemoteStateCacheBusMessage,
+  RemoteStateCacheBusTransport,
+} from './RemoteStateCacheBus';
+
+/**
+ * creates a bus transport which delivers messages between the contexts within the same process
+ *
+ * relevance
+ * - useful to connect several contexts in one process, e.g., one per tenant, or in tests
+ *
+ * note
+ * - give the same transport to each context which should receive the messages of the others
+ * - messages are delivered synchronously, to every subscriber, before `publish` resolves
+ */
+export const createRemoteStateCacheBusTransportInMemory =
+  (): RemoteStateCacheBusTransport => {
+    const subscribers = new Set<
+      (message: RemoteStateCacheBusMessage) => void
+    >();
+    return {
+      publish: async (message) => {
+        [...subscribers].forEach(
+          (onMessage) => onMessage(JSON.parse(JSON.stringify(message))), // deliver a copy, as a real transport would
+        );
+      },
+      subscribe: (onMessage) => {
+        subscribers.add(onMessage);
+        return () => {
+          subscribers.delete(onMessage);
+        };
+      },
+    };
+  };
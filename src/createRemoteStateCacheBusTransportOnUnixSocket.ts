@@ -0,0 +1,163 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+
+import {
+  RemoteStateCacheBusMessage,
+  RemoteStateCacheBusTransport,
+  isRemoteStateCacheBusMessage,
+} from './RemoteStateCacheBus';
+import {
+  RemoteStateCacheLogger,
+  defaultRemoteStateCacheLogger,
+} from './RemoteStateCacheLogger';
+
+/**
+ * the extension of the socket files each peer listens on, within the directory of the bus
+ */
+const SOCKET_FILE_EXTENSION = '.sock';
+
+/**
+ * parses a line received from a peer into a message of the bus
+ *
+ * note
+ * - returns null if the line is not valid json or not a message of the bus (e.g., it was corrupted, or sent by an incompatible version)
+ */
+const parseMessage = (line: string): RemoteStateCacheBusMessage | null => {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return isRemoteStateCacheBusMessage(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * a bus transport which delivers messages between the processes of the same machine, over unix sockets
+ */
+export interface RemoteStateCacheBusTransportOnUnixSocket
+  extends RemoteStateCacheBusTransport {
+  /**
+   * stops listening for messages and removes this peer from the directory of the bus
+   */
+  close: () => Promise<void>;
+}
+
+/**
+ * creates a bus transport which delivers messages between the processes of the same machine, over unix sockets
+ *
+ * relevance
+ * - useful to connect the contexts of several processes on one machine, e.g., a cluster of workers, or to test cross-process invalidation locally
+ *
+ * note
+ * - each peer listens on its own socket file within the given directory, and publishes by sending each message to every other socket file in it
+ * - socket files left behind by peers which exited without closing are removed when a publish finds them unreachable
+ * - messages are newline-delimited json; lines which are not messages of the bus are dropped
+ * - a subscriber which throws is reported to the logger, so that it can not crash this process nor keep the message from the other subscribers
+ */
+export const createRemoteStateCacheBusTransportOnUnixSocket = async ({
+  directory,
+  logger = defaultRemoteStateCacheLogger,
+}: {
+  directory: string;
+
+  /**
+   * the logger to report the failures of subscribers to
+   *
+   * note
+   * - defaults to the console
+   */
+  logger?: RemoteStateCacheLogger;
+}): Promise<RemoteStateCacheBusTransportOnUnixSocket> => {
+  // listen for messages on a socket file of our own
+  await fs.mkdir(directory, { recursive: true });
+  const socketPath = path.join(
+    directory,
+    `${randomBytes(8).toString('hex')}${SOCKET_FILE_EXTENSION}`,
+  );
+  const subscribers = new Set<(message: RemoteStateCacheBusMessage) => void>();
+  const deliver = async ({
+    onMessage,
+    message,
+  }: {
+    onMessage: (message: RemoteStateCacheBusMessage) => void;
+    message: RemoteStateCacheBusMessage;
+  }) => {
+    try {
+      await onMessage(message); // note: awaited, in case the subscriber is async, so that its rejections are caught too
+    } catch (error) {
+      logger.warn(
+        'a subscriber of the remote-state cache bus failed to handle a message received over unix sockets. ignoring it, so that the other subscribers still receive it',
+        { message, error },
+      );
+    }
+  };
+  const server = net.createServer((socket) => {
+    let buffered = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk) => {
+      buffered += chunk;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? ''; // the last line is incomplete until its newline arrives
+      lines
+        .filter((line) => line.trim().length)
+        .forEach((line) => {
+          const message = parseMessage(line);
+          if (!message) return; // drop lines which are not messages of the bus, so that no peer can crash this process
+          [...subscribers].forEach(
+            (onMessage) => void deliver({ onMessage, message }),
+          );
+        });
+    });
+    socket.on('error', () => {}); // the peer hung up early; nothing to do
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => resolve());
+  });
+
+  // define how to send a payload to one peer
+  const sendToPeer = ({
+    peerSocketPath,
+    payload,
+  }: {
+    peerSocketPath: string;
+    payload: string;
+  }) =>
+    new Promise<void>((resolve) => {
+      const socket = net.createConnection(peerSocketPath);
+      socket.on('error', (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ECONNREFUSED')
+          void fs.unlink(peerSocketPath).catch(() => {}); // the peer exited without closing, so remove its socket file
+      });
+      socket.on('close', () => resolve()); // resolve once the peer received the payload, or once the peer was found unreachable
+      socket.end(payload);
+    });
+
+  return {
+    publish: async (message) => {
+      const peerSocketPaths = (await fs.readdir(directory))
+        .filter((fileName) => fileName.endsWith(SOCKET_FILE_EXTENSION))
+        .map((fileName) => path.join(directory, fileName))
+        .filter((peerSocketPath) => peerSocketPath !== socketPath);
+      const payload = `${JSON.stringify(message)}\n`;
+      await Promise.all(
+        peerSocketPaths.map((peerSocketPath) =>
+          sendToPeer({ peerSocketPath, payload }),
+        ),
+      );
+    },
+    subscribe: (onMessage) => {
+      subscribers.add(onMessage);
+      return () => {
+        subscribers.delete(onMessage);
+      };
+    },
+    close: async () => {
+      subscribers.clear();
+      await new Promise<void>((resolve) => server.close(() => resolve())); // note: the socket file is removed by the server on close
+      await fs.unlink(socketPath).catch(() => {});
+    },
+  };
+};
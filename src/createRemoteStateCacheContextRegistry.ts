@@ -0,0 +1,141 @@
+import { RemoteStateCacheContext } from './RemoteStateCacheContext';
+import { RemoteStateQueryTriggerType } from './RemoteStateQueryCachingOptions';
+import { WithRemoteStateMutationRegistrationOptions } from './createRemoteStateCachingContext';
+
+/**
+ * a read-only description of a trigger between a query and a mutation
+ */
+export interface RemoteStateCacheContextTriggerDescription {
+  /**
+   * the type of trigger, i.e., whether the mutation invalidates or updates the query
+   */
+  type: RemoteStateQueryTriggerType;
+
+  /**
+   * the name of the query whose cache is affected by the trigger
+   */
+  query: string;
+
+  /**
+   * the name of the mutation which fires the trigger
+   */
+  mutation: string;
+}
+
+/**
+ * a read-only description of a query registered to the context
+ */
+export interface RemoteStateCacheContextQueryDescription {
+  /**
+   * the name of the query
+   */
+  name: string;
+
+  /**
+   * the triggers which affect this query
+   */
+  triggers: RemoteStateCacheContextTriggerDescription[];
+}
+
+/**
+ * a read-only description of a mutation registered to the context
+ */
+export interface RemoteStateCacheContextMutationDescription {
+  /**
+   * the name of the mutation
+   */
+  name: string;
+
+  /**
+   * the options the mutation was registered with
+   */
+  options: WithRemoteStateMutationRegistrationOptions<any>;
+
+  /**
+   * the triggers which this mutation fires
+   */
+  triggers: RemoteStateCacheContextTriggerDescription[];
+}
+
+/**
+ * a read-only api which exposes what was registered to a remote-state caching context
+ *
+ * relevance
+ * - enables auditing which mutations invalidate or update which queries, without having to find every `addTrigger` call
+ */
+export interface RemoteStateCacheContextRegistry {
+  /**
+   * lists all of the queries registered to the context
+   */
+  getQueries: () => RemoteStateCacheContextQueryDescription[];
+
+  /**
+   * lists all of the mutations registered to the context
+   */
+  getMutations: () => RemoteStateCacheContextMutationDescription[];
+
+  /**
+   * lists all of the triggers between queries and mutations, optionally filtered to a specific query or mutation
+   *
+   * note
+   * - includes triggers from mutations which were not registered to this context, since queries may reference mutations from elsewhere
+   */
+  getTriggers: (filter?: {
+    query?: string;
+    mutation?: string;
+  }) => RemoteStateCacheContextTriggerDescription[];
+}
+
+/**
+ * creates the read-only registry api for a remote-state caching context
+ */
+export const createRemoteStateCacheContextRegistry = ({
+  context,
+}: {
+  context: RemoteStateCacheContext;
+}): RemoteStateCacheContextRegistry => {
+  const getTriggers: RemoteStateCacheContextRegistry['getTriggers'] = (
+    filter = {},
+  ) =>
+    Object.values(context.registered.queries)
+      .filter((registration) =>
+        filter.query ? registration.name === filter.query : true,
+      )
+      .flatMap((registration) => [
+        ...registration.options.invalidatedBy.map((trigger) => ({
+          type: RemoteStateQueryTriggerType.INVALIDATION,
+          query: registration.name,
+          mutation: trigger.mutation.name,
+        })),
+        ...registration.options.updatedBy.map((trigger) => ({
+          type: RemoteStateQueryTriggerType.UPDATE,
+          query: registration.name,
+          mutation: trigger.mutation.name,
+        })),
+        ...registration.options.optimisticallyUpdatedBy.map((trigger) => ({
+          type: RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE,
+          query: registration.name,
+          mutation: trigger.mutation.name,
+        })),
+        ...registration.options.seededBy.map((trigger) => ({
+          type: RemoteStateQueryTriggerType.SEED,
+          query: registration.name,
+          mutation: trigger.mutation.name,
+        })),
+      ])
+      .filter((trigger) =>
+        filter.mutation ? trigger.mutation === filter.mutation : true,
+      );
+  const getQueries: RemoteStateCacheContextRegistry['getQueries'] = () =>
+    Object.values(context.registered.queries).map((registration) => ({
+      name: registration.name,
+      triggers: getTriggers({ query: registration.name }),
+    }));
+  const getMutations: RemoteStateCacheContextRegistry['getMutations'] = () =>
+    Object.values(context.registered.mutations).map((registration) => ({
+      name: registration.name,
+      options: { ...registration.options },
+      triggers: getTriggers({ mutation: registration.name }),
+    }));
+  return { getQueries, getMutations, getTriggers };
+};
@@ -0,0 +1,39 @@
+import { describeRemoteStateCacheConformance } from './__test_utils__/describeRemoteStateCacheConformance';
+import { createRemoteStateCacheInMemory } from './createRemoteStateCacheInMemory';
+
+describe('createRemoteStateCacheInMemory', () => {
+  describeRemoteStateCacheConformance({
+    name: 'createRemoteStateCacheInMemory',
+    getNewCache: () => createRemoteStateCacheInMemory(),
+  });
+  it('should evict the least recently used entry once it has more than max entries', async () => {
+    const cache = createRemoteStateCacheInMemory({ maxEntries: 2 });
+    await cache.set('chocolate', 'a');
+    await cache.set('vanilla', 'b');
+    await cache.get('chocolate'); // use chocolate, so that vanilla is the least recently used
+    await cache.set('strawberry', 'c');
+    expect(await cache.get('vanilla')).toEqual(undefined);
+    expect(await cache.get('chocolate')).toEqual('a');
+    expect(await cache.get('strawberry')).toEqual('c');
+    expect([...(await cache.keys())].sort()).toEqual([
+      'chocolate',
+      'strawberry',
+    ]);
+  });
+  it('should evict the least recently used entries once it has more than max bytes', async () => {
+    const cache = createRemoteStateCacheInMemory({ maxBytes: 20 });
+    await cache.set('a', '123456789'); // 10 bytes
+    await cache.set('b', '123456789'); // 10 bytes
+    expect([...(await cache.keys())].sort()).toEqual(['a', 'b']);
+    await cache.set('c', '1234'); // 5 bytes
+    expect([...(await cache.keys())].sort()).toEqual(['b', 'c']);
+  });
+  it('should evict expired entries before valid ones', async () => {
+    const cache = createRemoteStateCacheInMemory({ maxEntries: 2 });
+    await cache.set('chocolate', 'a');
+    await cache.set('vanilla', 'b', { secondsUntilExpiration: 0.05 });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await cache.set('strawberry', 'c');
+    expect(await cache.get('chocolate')).toEqual('a');
+  });
+});
@@ -0,0 +1,137 @@
+import { RemoteStateCache } from './RemoteStateCache';
+
+/**
+ * creates a remote-state cache which persists entries in memory, evicting the least recently used entries once it is full
+ *
+ * relevance
+ * - useful as the local tier of a two-tier cache, for single process applications, or in tests
+ *
+ * note
+ * - expired entries are never returned by `get` or `keys`, and are evicted as they are found by them, or by a sweep once per half as many sets as there are entries
+ * - expired members of sets are likewise never returned by `members`, and are evicted as they are found by it, or by a sweep once per half as many adds as there are members
+ * - the size of an entry is measured as the bytes of its key and value
+ * - supports sets, which are not counted against the limits of the entries
+ */
+export const createRemoteStateCacheInMemory = ({
+  maxEntries = Infinity,
+  maxBytes = Infinity,
+  defaultSecondsUntilExpiration = Infinity,
+}: {
+  /**
+   * the maximum number of entries to keep
+   *
+   * note
+   * - defaults to unlimited
+   */
+  maxEntries?: number;
+
+  /**
+   * the maximum number of bytes, of keys and values, to keep
+   *
+   * note
+   * - defaults to unlimited
+   */
+  maxBytes?: number;
+
+  /**
+   * the number of seconds entries are kept for, if not specified on set
+   *
+   * note
+   * - defaults to forever
+   */
+  defaultSecondsUntilExpiration?: number;
+} = {}): RemoteStateCache => {
+  const entries = new Map<
+    string,
+    { value: string; expiresAtMse: number; bytes: number }
+  >(); // note: a map iterates in insertion order, so the least recently used entry is always first
+  const sets = new Map<string, Map<string, number>>(); // note: the expiration of each member of each set
+  let bytesTotal = 0;
+  let setsSinceSweep = 0; // note: the sets since expired entries were last swept
+  let membersTotal = 0;
+  let addsSinceSweep = 0; // note: the adds since expired members were last swept
+  const isValid = (entry: { expiresAtMse: number }) =>
+    entry.expiresAtMse > Date.now();
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    bytesTotal -= entry.bytes;
+  };
+  const sweepExpiredEntries = () => {
+    for (const [key, entry] of entries) if (!isValid(entry)) remove(key); // note: a map may be deleted from while iterated
+    setsSinceSweep = 0;
+  };
+  const evictUntilWithinLimits = () => {
+    if (setsSinceSweep * 2 > entries.size) sweepExpiredEntries(); // sweep once per half as many sets as there are entries, so that each set costs constant time amortized, while expired entries which are never read still get evicted
+    while (entries.size > maxEntries || bytesTotal > maxBytes)
+      remove(entries.keys().next().value!); // evict the least recently used entry
+  };
+  const removeMember = (key: string, member: string) => {
+    const set = sets.get(key);
+    if (!set?.delete(member)) return;
+    membersTotal -= 1;
+    if (!set.size) sets.delete(key);
+  };
+  const removeExpiredMembers = (key: string) =>
+    [...(sets.get(key)?.entries() ?? [])]
+      .filter(([, expiresAtMse]) => !isValid({ expiresAtMse }))
+      .forEach(([member]) => removeMember(key, member));
+  const sweepExpiredMembers = () => {
+    [...sets.keys()].forEach(removeExpiredMembers);
+    addsSinceSweep = 0;
+  };
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (!isValid(entry)) {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key); // move the entry to the end of the order, since it was just used
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: async (key, value, options) => {
+      remove(key);
+      if (value === undefined) return; // setting undefined invalidates the entry
+      const bytes = Buffer.byteLength(key) + Buffer.byteLength(value);
+      entries.set(key, {
+        value,
+        expiresAtMse:
+          Date.now() +
+          (options?.secondsUntilExpiration ?? defaultSecondsUntilExpiration) *
+            1000,
+        bytes,
+      });
+      bytesTotal += bytes;
+      setsSinceSweep += 1;
+      evictUntilWithinLimits();
+    },
+    keys: () => {
+      sweepExpiredEntries(); // since every entry is visited anyway
+      return [...entries.keys()];
+    },
+    sets: {
+      add: async (key, member, options) => {
+        const set = sets.get(key) ?? new Map<string, number>();
+        sets.set(key, set);
+        if (!set.has(member)) membersTotal += 1;
+        set.set(
+          member,
+          Date.now() +
+            (options?.secondsUntilExpiration ?? defaultSecondsUntilExpiration) *
+              1000,
+        );
+        addsSinceSweep += 1;
+        if (addsSinceSweep * 2 > membersTotal) sweepExpiredMembers(); // sweep once per half as many adds as there are members, so that each add costs constant time amortized, while expired members of sets which are never read still get evicted
+      },
+      remove: async (key, member) => removeMember(key, member),
+      members: async (key) => {
+        removeExpiredMembers(key); // forget the members which expired
+        return [...(sets.get(key)?.keys() ?? [])];
+      },
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import uuid from 'uuid';
+
+import { describeRemoteStateCacheConformance } from './__test_utils__/describeRemoteStateCacheConformance';
+import { createRemoteStateCacheOnDisk } from './createRemoteStateCacheOnDisk';
+
+const getNewDirectory = () =>
+  `${__dirname}/__test_assets__/__tmp__/createRemoteStateCacheOnDisk/${uuid()}`;
+
+describe('createRemoteStateCacheOnDisk', () => {
+  describeRemoteStateCacheConformance({
+    name: 'createRemoteStateCacheOnDisk',
+    getNewCache: () =>
+      createRemoteStateCacheOnDisk({ directory: getNewDirectory() }),
+  });
+  it('should share entries between caches on the same directory, as separate processes would', async () => {
+    const directory = getNewDirectory();
+    const cacheA = createRemoteStateCacheOnDisk({ directory });
+    const cacheB = createRemoteStateCacheOnDisk({ directory });
+    await cacheA.set('recipes.chocolate', 'a');
+    expect(await cacheB.get('recipes.chocolate')).toEqual('a');
+    expect(await cacheB.keys()).toEqual(['recipes.chocolate']);
+    await cacheB.set('recipes.chocolate', undefined);
+    expect(await cacheA.get('recipes.chocolate')).toEqual(undefined);
+  });
+  it('should never let a reader see a partially written entry', async () => {
+    const directory = getNewDirectory();
+    const cacheA = createRemoteStateCacheOnDisk({ directory });
+    const cacheB = createRemoteStateCacheOnDisk({ directory });
+    const values = Array.from({ length: 10 }, (_, index) =>
+      String(index).repeat(100000),
+    );
+    const reads: (string | undefined)[] = [];
+    await Promise.all([
+      ...values.map((value) => cacheA.set('contested', value)),
+      ...values.map(async () => reads.push(await cacheB.get('contested'))),
+    ]);
+    reads
+      .filter((read) => read !== undefined)
+      .forEach((read) => expect(values).toContain(read));
+    expect(
+      (await fs.readdir(directory)).filter((fileName) =>
+        fileName.endsWith('.tmp'),
+      ),
+    ).toEqual([]); // no temporary files are left behind
+  });
+  it('should remove the files of expired entries, as get or keys find them', async () => {
+    const directory = getNewDirectory();
+    const cache = createRemoteStateCacheOnDisk({ directory });
+    await cache.set('recipes.chocolate', 'a', { secondsUntilExpiration: 0.05 });
+    await cache.set('recipes.vanilla', 'b', { secondsUntilExpiration: 0.05 });
+    await cache.set('recipes.strawberry', 'c');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await cache.get('recipes.chocolate')).toEqual(undefined);
+    expect((await fs.readdir(directory)).length).toEqual(2);
+    expect(await cache.keys()).toEqual(['recipes.strawberry']);
+    expect((await fs.readdir(directory)).length).toEqual(1);
+  });
+  it('should recreate its directory on write, if it was removed since the last write', async () => {
+    const directory = getNewDirectory();
+    const cache = createRemoteStateCacheOnDisk({ directory });
+    await cache.set('recipes.chocolate', 'a');
+    await fs.rm(directory, { recursive: true });
+    await cache.set('recipes.vanilla', 'b');
+    expect(await cache.get('recipes.vanilla')).toEqual('b');
+    expect(await cache.keys()).toEqual(['recipes.vanilla']);
+  });
+});
@@ -0,0 +1,254 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import shajs from 'sha.js';
+
+import { RemoteStateCache } from './RemoteStateCache';
+
+/**
+ * the extension of the files each entry is persisted in, within the directory of the cache
+ */
+const ENTRY_FILE_EXTENSION = '.json';
+
+/**
+ * the shape in which each entry is persisted
+ */
+interface RemoteStateCacheOnDiskEntry {
+  key: string;
+  value: string;
+  expiresAtMse: number | null; // note: json can not represent `Infinity`, so entries which never expire persist `null`
+}
+
+/**
+ * the name of the directory, within the directory of the cache, in which sets are persisted
+ *
+ * note
+ * - has no file extension, so it is never mistaken for the file of an entry
+ */
+const SETS_DIRECTORY_NAME = '__sets__';
+
+/**
+ * the shape in which each member of a set is persisted
+ */
+interface RemoteStateCacheOnDiskSetMember {
+  member: string;
+  expiresAtMse: number | null;
+}
+
+/**
+ * reads an entry, or a member of a set, from its file
+ *
+ * note
+ * - returns null if the file was removed, since a concurrent invalidation may remove it at any time
+ */
+const readEntryFile = async <
+  T extends RemoteStateCacheOnDiskEntry | RemoteStateCacheOnDiskSetMember,
+>(
+  filePath: string,
+): Promise<T | null> => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+/**
+ * removes a file, if it was not removed already
+ */
+const removeFile = async (filePath: string): Promise<void> => {
+  await fs.unlink(filePath).catch((error: NodeJS.ErrnoException) => {
+    if (error.code !== 'ENOENT') throw error; // already removed, which is what we wanted
+  });
+};
+
+/**
+ * writes a file atomically, via a temporary file unique to this write, so readers never see it partially written
+ */
+const writeFileAtomically = async (
+  filePath: string,
+  contents: string,
+): Promise<void> => {
+  const tempFilePath = `${filePath}.${randomBytes(8).toString('hex')}.tmp`;
+  await fs.writeFile(tempFilePath, contents);
+  await fs.rename(tempFilePath, filePath);
+};
+
+/**
+ * checks whether an entry, or a member of a set, has not yet expired
+ */
+const isEntryValid = (entry: { expiresAtMse: number | null }) =>
+  entry.expiresAtMse === null || entry.expiresAtMse > Date.now();
+
+/**
+ * removes the file of an entry, or of a member of a set, if it has expired
+ *
+ * note
+ * - claims the file by renaming it first, so that a write which replaced it since it was read is restored rather than lost
+ */
+const removeFileIfExpired = async (filePath: string): Promise<void> => {
+  const claimedFilePath = `${filePath}.${randomBytes(8).toString('hex')}.tmp`;
+  try {
+    await fs.rename(filePath, claimedFilePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return; // already removed, which is what we wanted
+    throw error;
+  }
+  const claimed = await readEntryFile<
+    RemoteStateCacheOnDiskEntry | RemoteStateCacheOnDiskSetMember
+  >(claimedFilePath);
+  if (claimed && isEntryValid(claimed))
+    // a write replaced it since it was read, so restore it
+    await fs.link(claimedFilePath, filePath).catch((error) => {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error; // an even newer write replaced it already, which wins
+    });
+  await removeFile(claimedFilePath);
+};
+
+/**
+ * defines when an entry, or a member of a set, expires, per the seconds until expiration it was set with
+ */
+const getExpiresAtMse = (secondsUntilExpiration: number): number | null =>
+  Number.isFinite(secondsUntilExpiration)
+    ? Date.now() + secondsUntilExpiration * 1000
+    : null;
+
+/**
+ * lists the files of a directory
+ *
+ * note
+ * - returns no files if the directory was not created yet, since nothing was written to it yet
+ */
+const readDirectory = async (directory: string): Promise<string[]> =>
+  fs.readdir(directory).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  });
+
+/**
+ * creates a remote-state cache which persists entries on the filesystem, one file per entry
+ *
+ * relevance
+ * - useful to share a cache between the processes of the same machine, e.g., a cli, a cluster of workers, or local development
+ *
+ * note
+ * - writes are atomic: each entry is written to a temporary file and then renamed over its file, so readers never see a partial entry
+ * - safe for concurrent access from multiple processes; when two processes write the same key at once, the last rename wins
+ * - file names are the hash of the key, so keys may contain any character
+ * - the files of expired entries are removed as `get` or `keys` find them
+ * - supports sets, with one file per member, so members are added and removed atomically too
+ */
+export const createRemoteStateCacheOnDisk = ({
+  directory,
+  defaultSecondsUntilExpiration = Infinity,
+}: {
+  /**
+   * the directory to persist entries in
+   *
+   * note
+   * - created on write, if it does not exist, so that a directory removed since is recreated
+   */
+  directory: string;
+
+  /**
+   * the number of seconds entries are kept for, if not specified on set
+   *
+   * note
+   * - defaults to forever
+   */
+  defaultSecondsUntilExpiration?: number;
+}): RemoteStateCache => {
+  const getFileName = (key: string) =>
+    `${shajs('sha256').update(key).digest('hex')}${ENTRY_FILE_EXTENSION}`;
+  const getFilePath = (key: string) => path.join(directory, getFileName(key));
+  const getSetDirectory = (key: string) =>
+    path.join(
+      directory,
+      SETS_DIRECTORY_NAME,
+      shajs('sha256').update(key).digest('hex'),
+    );
+  return {
+    get: async (key) => {
+      const filePath = getFilePath(key);
+      const entry = await readEntryFile<RemoteStateCacheOnDiskEntry>(filePath);
+      if (!entry) return undefined;
+      if (!isEntryValid(entry)) {
+        await removeFileIfExpired(filePath); // forget the entry, since it expired
+        return undefined;
+      }
+      return entry.value;
+    },
+    set: async (key, value, options) => {
+      // setting undefined invalidates the entry
+      if (value === undefined) return removeFile(getFilePath(key));
+
+      // write the entry atomically
+      await fs.mkdir(directory, { recursive: true }); // on each write, since the directory may have been removed since the last one
+      const entry: RemoteStateCacheOnDiskEntry = {
+        key,
+        value,
+        expiresAtMse: getExpiresAtMse(
+          options?.secondsUntilExpiration ?? defaultSecondsUntilExpiration,
+        ),
+      };
+      await writeFileAtomically(getFilePath(key), JSON.stringify(entry));
+    },
+    keys: async () => {
+      const fileNames = await readDirectory(directory);
+      const entries = await Promise.all(
+        fileNames
+          .filter((fileName) => fileName.endsWith(ENTRY_FILE_EXTENSION)) // skip the temporary files of writes in progress, and the directory of sets
+          .map(async (fileName) => {
+            const filePath = path.join(directory, fileName);
+            const entry = await readEntryFile<RemoteStateCacheOnDiskEntry>(
+              filePath,
+            );
+            if (!entry || isEntryValid(entry)) return entry;
+            await removeFileIfExpired(filePath); // forget the entries which expired
+            return null;
+          }),
+      );
+      return entries
+        .filter((entry): entry is RemoteStateCacheOnDiskEntry => !!entry)
+        .map((entry) => entry.key);
+    },
+    sets: {
+      add: async (key, member, options) => {
+        const setDirectory = getSetDirectory(key);
+        await fs.mkdir(setDirectory, { recursive: true });
+        const persisted: RemoteStateCacheOnDiskSetMember = {
+          member,
+          expiresAtMse: getExpiresAtMse(
+            options?.secondsUntilExpiration ?? defaultSecondsUntilExpiration,
+          ),
+        };
+        await writeFileAtomically(
+          path.join(setDirectory, getFileName(member)),
+          JSON.stringify(persisted),
+        );
+      },
+      remove: (key, member) =>
+        removeFile(path.join(getSetDirectory(key), getFileName(member))),
+      members: async (key) => {
+        const setDirectory = getSetDirectory(key);
+        const fileNames = await readDirectory(setDirectory);
+        const members = await Promise.all(
+          fileNames
+            .filter((fileName) => fileName.endsWith(ENTRY_FILE_EXTENSION)) // skip the temporary files of writes in progress
+            .map(async (fileName) => {
+              const filePath = path.join(setDirectory, fileName);
+              const found =
+                await readEntryFile<RemoteStateCacheOnDiskSetMember>(filePath);
+              if (!found || isEntryValid(found)) return found;
+              await removeFileIfExpired(filePath); // forget the members which expired
+              return null;
+            }),
+        );
+        return members
+          .filter((found): found is RemoteStateCacheOnDiskSetMember => !!found)
+          .map((found) => found.member);
+      },
+    },
+  };
+};
@@ -0,0 +1,273 @@
+import { RemoteStateCacheEventSubscribers } from './RemoteStateCacheEvent';
+
+/**
+ * the default upper bounds, in seconds, of the buckets of the logic latency histogram
+ */
+export const DEFAULT_LATENCY_HISTOGRAM_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * a histogram of the latencies, in seconds, of the logic wrapped by a query
+ */
+export interface RemoteStateQueryLatencyHistogram {
+  /**
+   * the cumulative count of observations less than or equal to each bucket's upper bound
+   */
+  buckets: { le: number; count: number }[];
+
+  /**
+   * the sum of all observed latencies, in seconds
+   */
+  sum: number;
+
+  /**
+   * the count of all observed latencies
+   */
+  count: number;
+}
+
+/**
+ * the statistics tracked for the cache of a remote-state-query
+ */
+export interface RemoteStateQueryCacheStats {
+  /**
+   * the count of executions which found the output in the cache
+   */
+  hits: number;
+
+  /**
+   * the count of executions which did not find the output in the cache
+   */
+  misses: number;
+
+  /**
+   * the count of outputs which were set into the cache
+   */
+  sets: number;
+
+  /**
+   * the count of cache keys invalidated by mutation triggers
+   */
+  triggeredInvalidations: number;
+
+  /**
+   * the count of cache keys updated by mutation triggers
+   */
+  triggeredUpdates: number;
+
+  /**
+   * the count of cached values which failed to deserialize
+   */
+  deserializationFailures: number;
+
+  /**
+   * the count of cached values which failed the validator of the query
+   */
+  validationFailures: number;
+
+  /**
+   * the latencies of the wrapped logic, which is executed on each miss
+   */
+  latency: RemoteStateQueryLatencyHistogram;
+}
+
+/**
+ * tracks statistics of the cache, per query, within a remote-state caching context
+ */
+export interface RemoteStateCacheStatsTracker {
+  /**
+   * event subscribers which record the hits, misses, sets, triggered invalidations and updates, and validation failures
+   */
+  subscribers: RemoteStateCacheEventSubscribers;
+
+  /**
+   * starts tracking statistics for a query, so that it is reported even before it is used
+   */
+  track: (args: { query: string }) => void;
+
+  /**
+   * records that a cached value failed to deserialize
+   */
+  recordDeserializationFailure: (args: { query: string }) => void;
+
+  /**
+   * records the latency of an execution of the wrapped logic
+   */
+  recordLogicLatency: (args: { query: string; seconds: number }) => void;
+
+  /**
+   * gets a snapshot of the statistics, per query
+   */
+  getStats: () => Record<string, RemoteStateQueryCacheStats>;
+
+  /**
+   * renders the statistics in the prometheus text exposition format
+   */
+  getStatsAsPrometheusText: () => string;
+}
+
+/**
+ * escapes a label value for the prometheus text exposition format
+ */
+const toPrometheusLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+/**
+ * creates a tracker of the statistics of the cache, per query
+ */
+export const createRemoteStateCacheStats = ({
+  buckets = DEFAULT_LATENCY_HISTOGRAM_BUCKETS,
+}: {
+  buckets?: number[];
+} = {}): RemoteStateCacheStatsTracker => {
+  const statsByQuery: Record<string, RemoteStateQueryCacheStats> = {};
+  const getOrInit = (query: string): RemoteStateQueryCacheStats => {
+    const found = statsByQuery[query];
+    if (found) return found;
+    const initialized: RemoteStateQueryCacheStats = {
+      hits: 0,
+      misses: 0,
+      sets: 0,
+      triggeredInvalidations: 0,
+      triggeredUpdates: 0,
+      deserializationFailures: 0,
+      validationFailures: 0,
+      latency: {
+        buckets: [...buckets]
+          .sort((a, b) => a - b)
+          .map((le) => ({ le, count: 0 })),
+        sum: 0,
+        count: 0,
+      },
+    };
+    statsByQuery[query] = initialized;
+    return initialized;
+  };
+
+  const subscribers: RemoteStateCacheEventSubscribers = {
+    hit: ({ query }) => {
+      getOrInit(query).hits += 1;
+    },
+    miss: ({ query }) => {
+      getOrInit(query).misses += 1;
+    },
+    set: ({ query }) => {
+      getOrInit(query).sets += 1;
+    },
+    invalidate: ({ query, mutation }) => {
+      if (mutation) getOrInit(query).triggeredInvalidations += 1;
+    },
+    update: ({ query, mutation }) => {
+      if (mutation) getOrInit(query).triggeredUpdates += 1;
+    },
+    validationFailed: ({ query }) => {
+      getOrInit(query).validationFailures += 1;
+    },
+  };
+
+  const track: RemoteStateCacheStatsTracker['track'] = ({ query }) => {
+    getOrInit(query);
+  };
+
+  const recordDeserializationFailure: RemoteStateCacheStatsTracker['recordDeserializationFailure'] =
+    ({ query }) => {
+      getOrInit(query).deserializationFailures += 1;
+    };
+
+  const recordLogicLatency: RemoteStateCacheStatsTracker['recordLogicLatency'] =
+    ({ query, seconds }) => {
+      const { latency } = getOrInit(query);
+      latency.sum += seconds;
+      latency.count += 1;
+      latency.buckets.forEach((bucket) => {
+        if (seconds <= bucket.le) bucket.count += 1; // eslint-disable-line no-param-reassign
+      });
+    };
+
+  const getStats: RemoteStateCacheStatsTracker['getStats'] = () =>
+    JSON.parse(JSON.stringify(statsByQuery)); // return a snapshot, so that the caller can not mutate the tracked stats
+
+  const getStatsAsPrometheusText: RemoteStateCacheStatsTracker['getStatsAsPrometheusText'] =
+    () => {
+      const entries = Object.entries(statsByQuery).sort(([a], [b]) =>
+        a.localeCompare(b),
+      );
+      const counters: {
+        name: string;
+        help: string;
+        of: keyof Omit<RemoteStateQueryCacheStats, 'latency'>;
+      }[] = [
+        {
+          name: 'remote_state_cache_hits_total',
+          help: 'the count of executions which found the output in the cache',
+          of: 'hits',
+        },
+        {
+          name: 'remote_state_cache_misses_total',
+          help: 'the count of executions which did not find the output in the cache',
+          of: 'misses',
+        },
+        {
+          name: 'remote_state_cache_sets_total',
+          help: 'the count of outputs which were set into the cache',
+          of: 'sets',
+        },
+        {
+          name: 'remote_state_cache_triggered_invalidations_total',
+          help: 'the count of cache keys invalidated by mutation triggers',
+          of: 'triggeredInvalidations',
+        },
+        {
+          name: 'remote_state_cache_triggered_updates_total',
+          help: 'the count of cache keys updated by mutation triggers',
+          of: 'triggeredUpdates',
+        },
+        {
+          name: 'remote_state_cache_deserialization_failures_total',
+          help: 'the count of cached values which failed to deserialize',
+          of: 'deserializationFailures',
+        },
+        {
+          name: 'remote_state_cache_validation_failures_total',
+          help: 'the count of cached values which failed the validator of the query',
+          of: 'validationFailures',
+        },
+      ];
+      const lines = counters.flatMap(({ name, help, of }) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        ...entries.map(
+          ([query, stats]) =>
+            `${name}{query="${toPrometheusLabelValue(query)}"} ${stats[of]}`,
+        ),
+      ]);
+      const histogram = 'remote_state_cache_logic_duration_seconds';
+      lines.push(
+        `# HELP ${histogram} the latency of the logic wrapped by the query, executed on each miss`,
+        `# TYPE ${histogram} histogram`,
+        ...entries.flatMap(([query, { latency }]) => {
+          const label = `query="${toPrometheusLabelValue(query)}"`;
+          return [
+            ...latency.buckets.map(
+              (bucket) =>
+                `${histogram}_bucket{${label},le="${bucket.le}"} ${bucket.count}`,
+            ),
+            `${histogram}_bucket{${label},le="+Inf"} ${latency.count}`,
+            `${histogram}_sum{${label}} ${latency.sum}`,
+            `${histogram}_count{${label}} ${latency.count}`,
+          ];
+        }),
+      );
+      return `${lines.join('\n')}\n`;
+    };
+
+  return {
+    subscribers,
+    track,
+    recordDeserializationFailure,
+    recordLogicLatency,
+    getStats,
+    getStatsAsPrometheusText,
+  };
+};
@@ -0,0 +1,117 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import { getExpiresAtFromIndex } from './RemoteStateCacheExpirationIndex';
+import { REMOTE_STATE_CACHE_RESERVED_PREFIX } from './RemoteStateCacheKeyCodec';
+import { createRemoteStateCacheInMemory } from './createRemoteStateCacheInMemory';
+
+/**
+ * a cache composed of a fast in-process tier in front of a shared remote tier
+ */
+export interface RemoteStateCacheTwoTier extends RemoteStateCache {
+  /**
+   * the in-process tier, with a short ttl and a bounded size
+   *
+   * note
+   * - it is not shared between processes, so it must be invalidated when a peer invalidates an entry (e.g., over the bus)
+   */
+  local: RemoteStateCache;
+
+  /**
+   * the shared tier, which is authoritative
+   */
+  remote: RemoteStateCache;
+}
+
+/**
+ * checks whether a cache is a two-tier cache
+ */
+export const isRemoteStateCacheTwoTier = (
+  cache: RemoteStateCache,
+): cache is RemoteStateCacheTwoTier => 'local' in cache && 'remote' in cache;
+
+/**
+ * creates a cache with a fast in-process tier in front of a shared remote tier
+ *
+ * relevance
+ * - cuts reads of the remote cache for hot queries, which would otherwise pay a network round trip on each hit
+ *
+ * note
+ * - reads check the local tier, then the remote tier, and populate the local tier from the remote tier
+ * - writes and invalidations apply to both tiers, so that trigger-driven invalidations and updates apply to both
+ * - entries are kept locally for no longer than they have left in the remote tier, per its expiration index, so the local tier never outlives it
+ * - keys and sets come from the remote tier, since it is authoritative
+ * - the keys the context persists itself (e.g., indexes) are kept in the remote tier only, so that they do not take up the slots of the local tier
+ * - the local tier of other processes can not see these writes; connect each context to a bus to invalidate them
+ */
+export const createRemoteStateCacheTwoTier = ({
+  remote,
+  local: { secondsUntilExpiration = 5, maxEntries = 1000 } = {},
+}: {
+  /**
+   * the shared cache, which is authoritative
+   */
+  remote: RemoteStateCache;
+
+  /**
+   * the options of the in-process tier
+   */
+  local?: {
+    /**
+     * the maximum number of seconds an entry is kept in the local tier
+     *
+     * note
+     * - defaults to 5 seconds, to bound how long a process can serve a value which another process invalidated without a bus
+     */
+    secondsUntilExpiration?: number;
+
+    /**
+     * the maximum number of entries kept in the local tier
+     *
+     * note
+     * - defaults to 1000
+     */
+    maxEntries?: number;
+  };
+}): RemoteStateCacheTwoTier => {
+  const local = createRemoteStateCacheInMemory({
+    maxEntries,
+    defaultSecondsUntilExpiration: secondsUntilExpiration,
+  });
+  const isKeyOfIndex = (key: string) =>
+    key.startsWith(REMOTE_STATE_CACHE_RESERVED_PREFIX);
+  return {
+    local,
+    remote,
+    get: async (key) => {
+      if (isKeyOfIndex(key)) return remote.get(key);
+      const fromLocal = await local.get(key);
+      if (fromLocal !== undefined) return fromLocal;
+      const [fromRemote, expiresAt] = await Promise.all([
+        remote.get(key),
+        getExpiresAtFromIndex({ cache: remote, key }),
+      ]);
+      if (fromRemote === undefined) return undefined;
+      const secondsUntilRemoteExpiration =
+        expiresAt === undefined ? Infinity : (expiresAt - Date.now()) / 1000;
+      if (secondsUntilRemoteExpiration > 0)
+        await local.set(key, fromRemote, {
+          secondsUntilExpiration: Math.min(
+            secondsUntilExpiration,
+            secondsUntilRemoteExpiration,
+          ), // never keep an entry locally for longer than it has left remotely
+        });
+      return fromRemote;
+    },
+    set: async (key, value, options) => {
+      await remote.set(key, value, options);
+      if (isKeyOfIndex(key)) return;
+      await local.set(key, value, {
+        secondsUntilExpiration: Math.min(
+          secondsUntilExpiration,
+          options?.secondsUntilExpiration ?? Infinity,
+        ), // never keep an entry locally for longer than the local tier allows
+      });
+    },
+    keys: () => remote.keys(),
+    sets: remote.sets,
+  };
+};
@@ -0,0 +1,68 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
+
+import { RemoteStateCacheValueClassCodec } from './RemoteStateCacheValueCodec';
+import { createRemoteStateCacheValueCodecTyped } from './createRemoteStateCacheValueCodecTyped';
+
+class Money {
+  constructor(public readonly value: { amount: bigint; currency: string }) {}
+
+  public format(): string {
+    return `${this.value.amount} ${this.value.currency}`;
+  }
+}
+const moneyCodec: RemoteStateCacheValueClassCodec<Money> = {
+  name: 'Money',
+  class: Money,
+  encode: (money) => money.value,
+  decode: (encoded) =>
+    new Money(encoded as { amount: bigint; currency: string }),
+};
+
+describe('createRemoteStateCacheValueCodecTyped', () => {
+  it('should round-trip the types json does not support', () => {
+    const codec = createRemoteStateCacheValueCodecTyped();
+    const value = {
+      at: new Date('2020-01-01T00:00:00.000Z'),
+      count: BigInt('9007199254740993'),
+      byName: new Map([['steak', new Set(['salt', 'pepper'])]]),
+      missing: undefined,
+      ratio: NaN,
+      list: [Infinity, undefined, null],
+      nested: { $type: 'Date', value: 'not a date' }, // plain data which looks like a tag
+    };
+    expect(codec.deserialize(codec.serialize(value))).toEqual(value);
+    expect(codec.deserialize(codec.serialize(value)).at).toBeInstanceOf(Date);
+  });
+  it('should round-trip the instances of registered classes, including the types nested within them', () => {
+    const codec = createRemoteStateCacheValueCodecTyped({
+      classes: [moneyCodec],
+    });
+    const value = {
+      prices: [new Money({ amount: BigInt(7), currency: 'USD' })],
+    };
+    const deserialized = codec.deserialize(codec.serialize(value));
+    expect(deserialized.prices[0]).toBeInstanceOf(Money);
+    expect(deserialized.prices[0].format()).toEqual('7 USD');
+  });
+  it('should read values serialized as plain json', () => {
+    const codec = createRemoteStateCacheValueCodecTyped();
+    expect(codec.deserialize(JSON.stringify({ title: 'steak' }))).toEqual({
+      title: 'steak',
+    });
+  });
+  it('should throw a helpful error for an instance of a class whose codec is not registered', () => {
+    const serialized = createRemoteStateCacheValueCodecTyped({
+      classes: [moneyCodec],
+    }).serialize(new Money({ amount: BigInt(7), currency: 'USD' }));
+    expect(() =>
+      createRemoteStateCacheValueCodecTyped().deserialize(serialized),
+    ).toThrow(BadRequestError);
+  });
+  it('should throw a helpful error if two class codecs share a name', () => {
+    expect(() =>
+      createRemoteStateCacheValueCodecTyped({
+        classes: [moneyCodec, { ...moneyCodec }],
+      }),
+    ).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,172 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
+
+import {
+  RemoteStateCacheValueClassCodec,
+  RemoteStateCacheValueCodec,
+} from './RemoteStateCacheValueCodec';
+
+/**
+ * the key under which typed values are tagged with their type
+ */
+const TYPE_TAG = '$type';
+
+/**
+ * a value tagged with its type
+ */
+interface RemoteStateCacheValueTagged {
+  [TYPE_TAG]: string;
+  name?: string;
+  value?: unknown;
+}
+
+/**
+ * determines whether an encoded value was tagged with its type
+ *
+ * note
+ * - only objects with exactly the keys of a tag are considered tagged, so that plain objects which happen to have a `$type` key, cached before the typed codec was adopted, are still read as plain objects
+ */
+const isTagged = (encoded: object): encoded is RemoteStateCacheValueTagged =>
+  typeof (encoded as Record<string, unknown>)[TYPE_TAG] === 'string' &&
+  Object.keys(encoded).every((key) =>
+    [TYPE_TAG, 'name', 'value'].includes(key),
+  );
+
+/**
+ * creates a value codec which round-trips the types json does not support, tagging them with their type
+ *
+ * relevance
+ * - with plain json, a query which returns a `Date` returns a string when served from cache, so callers and `updatedBy` handlers see a different type on a hit than on a miss
+ *
+ * note
+ * - supports `Date`, `BigInt`, `Map`, `Set`, `undefined`, `NaN`, `Infinity`, and the instances of each registered class
+ * - values without tags are plain json, so values cached by the default codec are still read
+ * - properties whose values are functions or symbols are skipped, and objects with a `toJSON` method are serialized from it, like json does
+ *
+ * for example
+ * ```ts
+ * createRemoteStateCachingContext({
+ *   cache,
+ *   valueCodec: createRemoteStateCacheValueCodecTyped({ classes: [moneyCodec] }),
+ * });
+ * ```
+ */
+export const createRemoteStateCacheValueCodecTyped = ({
+  classes = [],
+}: {
+  /**
+   * the codecs of the classes whose instances should round-trip
+   *
+   * note
+   * - checked in order, before the built-in types, so the first codec whose class an instance is an instance of is used
+   */
+  classes?: RemoteStateCacheValueClassCodec<any>[];
+} = {}): RemoteStateCacheValueCodec => {
+  // sanity check that each class codec can be found unambiguously by its name
+  const classCodecByName = new Map<
+    string,
+    RemoteStateCacheValueClassCodec<any>
+  >();
+  classes.forEach((codec) => {
+    if (classCodecByName.has(codec.name))
+      throw new BadRequestError(
+        'two class codecs were registered to a typed value codec with the same name. these names should be unique, since they identify the class of each cached instance',
+        { name: codec.name },
+      );
+    classCodecByName.set(codec.name, codec);
+  });
+
+  // define how to encode a value into json
+  const encode = (value: unknown, ancestors: object[]): unknown => {
+    if (
+      value === undefined ||
+      typeof value === 'function' ||
+      typeof value === 'symbol'
+    )
+      return { [TYPE_TAG]: 'undefined' };
+    if (typeof value === 'number' && !Number.isFinite(value))
+      return { [TYPE_TAG]: 'number', value: String(value) };
+    if (typeof value === 'bigint')
+      return { [TYPE_TAG]: 'BigInt', value: value.toString() };
+    if (value === null || typeof value !== 'object') return value;
+    if (ancestors.includes(value))
+      throw new BadRequestError(
+        'can not serialize a value with a circular reference into the cache',
+      );
+    const encodeChild = (child: unknown) =>
+      encode(child, [...ancestors, value]);
+    const classCodec = classes.find((codec) => value instanceof codec.class);
+    if (classCodec)
+      return {
+        [TYPE_TAG]: 'class',
+        name: classCodec.name,
+        value: encodeChild(classCodec.encode(value)),
+      };
+    if (value instanceof Date)
+      return {
+        [TYPE_TAG]: 'Date',
+        value: Number.isNaN(value.getTime()) ? null : value.toISOString(),
+      };
+    if (value instanceof Map)
+      return {
+        [TYPE_TAG]: 'Map',
+        value: [...value.entries()].map(([key, child]) => [
+          encodeChild(key),
+          encodeChild(child),
+        ]),
+      };
+    if (value instanceof Set)
+      return { [TYPE_TAG]: 'Set', value: [...value.values()].map(encodeChild) };
+    if (Array.isArray(value)) return value.map(encodeChild);
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function')
+      return encodeChild((value as { toJSON: () => unknown }).toJSON());
+    const entries = Object.entries(value)
+      .filter(
+        ([, child]) => typeof child !== 'function' && typeof child !== 'symbol',
+      )
+      .map(([key, child]) => [key, encodeChild(child)]);
+    const encoded = Object.fromEntries(entries);
+    return isTagged(encoded)
+      ? { [TYPE_TAG]: 'Object', value: encoded } // escape plain objects which look like tags, so they are not decoded as one
+      : encoded;
+  };
+
+  // define how to decode json back into a value
+  const decode = (encoded: unknown): unknown => {
+    if (encoded === null || typeof encoded !== 'object') return encoded;
+    if (Array.isArray(encoded)) return encoded.map(decode);
+    const decodeEntries = (object: object) =>
+      Object.fromEntries(
+        Object.entries(object).map(([key, child]) => [key, decode(child)]),
+      );
+    if (!isTagged(encoded)) return decodeEntries(encoded);
+    const { [TYPE_TAG]: type, name, value } = encoded;
+    if (type === 'undefined') return undefined;
+    if (type === 'number') return Number(value);
+    if (type === 'BigInt') return BigInt(value as string);
+    if (type === 'Date') return new Date(value === null ? NaN : String(value));
+    if (type === 'Map')
+      return new Map(
+        (value as [unknown, unknown][]).map(([key, child]) => [
+          decode(key),
+          decode(child),
+        ]),
+      );
+    if (type === 'Set') return new Set((value as unknown[]).map(decode));
+    if (type === 'Object') return decodeEntries(value as object);
+    if (type === 'class') {
+      const classCodec = classCodecByName.get(name as string);
+      if (!classCodec)
+        throw new BadRequestError(
+          'a cached value includes an instance of a class which has no codec registered to the typed value codec. was the codec renamed or removed?',
+          { name },
+        );
+      return classCodec.decode(decode(value));
+    }
+    return decodeEntries(encoded); // an unknown tag, so a plain object cached before the typed codec was adopted
+  };
+
+  return {
+    serialize: (output) => JSON.stringify(encode(output, [])),
+    deserialize: (cached) => decode(JSON.parse(cached)),
+  };
+};
@@ -1,12 +1,43 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
 import { promises as fs } from 'fs';
+import net from 'net';
 import { createCache as createOnDiskCache } from 'simple-on-disk-cache';
 import { HasMetadata } from 'type-fns';
 import uuid from 'uuid';
 import { SimpleCache } from 'with-simple-caching';
 
 import { RemoteStateCache } from './RemoteStateCache';
+import {
+  RemoteStateCacheBusMessage,
+  RemoteStateCacheBusOptions,
+} from './RemoteStateCacheBus';
+import {
+  RemoteStateCacheEventSubscribers,
+  RemoteStateCacheEventType,
+  RemoteStateCacheKeyEvent,
+} from './RemoteStateCacheEvent';
+import {
+  MutationExecutionPhase,
+  MutationExecutionStatus,
+  RemoteStateCacheKeySerializationMode,
+  RemoteStateQueryInvalidationStrategy,
+  RemoteStateQueryRefetchMode,
+  RemoteStateQueryTriggerType,
+  RemoteStateTriggerFailurePolicy,
+} from './RemoteStateQueryCachingOptions';
+import { TriggerExecutionError } from './TriggerExecutionError';
+import { createRemoteStateCacheBusTransportInMemory } from './createRemoteStateCacheBusTransportInMemory';
+import { createRemoteStateCacheBusTransportOnUnixSocket } from './createRemoteStateCacheBusTransportOnUnixSocket';
+import { createRemoteStateCacheInMemory } from './createRemoteStateCacheInMemory';
+import { createRemoteStateCacheOnDisk } from './createRemoteStateCacheOnDisk';
+import { createRemoteStateCacheTwoTier } from './createRemoteStateCacheTwoTier';
+import { createRemoteStateCacheValueCodecTyped } from './createRemoteStateCacheValueCodecTyped';
 import { createRemoteStateCachingContext } from './createRemoteStateCachingContext';
-import { defaultKeySerializationMethod } from './defaults';
+import {
+  defaultKeySerializationMethod,
+  legacyKeySerializationMethod,
+} from './defaults';
+import { RemoteStateCacheContextGraphFormat } from './describeRemoteStateCacheContextGraph';
 
 /**
  * a recipe
@@ -29,6 +60,8 @@ const createCache = () =>
     },
   });
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 describe('createRemoteStateCachingContext', () => {
   beforeEach(() =>
     // invalidate all of the current cached data, so past tests dont interfere
@@ -262,296 +295,653 @@ describe('createRemoteStateCachingContext', () => {
       expect(result6.length).toEqual(0); // should no longer have any results, since our updatedBy trigger should have removed the recipe by uuid
       expect(apiCalls.length).toEqual(3); // should not have had another api call, since we updated the cache, not invalidated it
     });
-    it('should be possible to invalidate and update a query cache from mutation, when cache is pulled from input at runtime', async () => {
+    it('should give triggers the decoded inputs of the cached entries and let them select affected entries by input predicate', async () => {
       // start the context
       const {
         withRemoteStateQueryCaching,
         withRemoteStateMutationRegistration,
-      } = createRemoteStateCachingContext({
-        cache: ({ fromInput }) => fromInput[1].cache,
-      });
+      } = createRemoteStateCachingContext({ cache: createCache() });
 
-      // define a mutation which we'll have as a trigger for cache invalidation
-      const mutationAddRecipe = withRemoteStateMutationRegistration(
-        async (
-          { recipe }: { recipe: Recipe },
-          _: { cache: RemoteStateCache },
-        ) => recipe,
-        {
-          name: 'mutationAddRecipe',
+      // define a query per account
+      const apiCalls: string[] = [];
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async ({
+          accountId,
+          searchFor,
+        }: {
+          accountId: string;
+          searchFor: string;
+        }): Promise<Recipe[]> => {
+          apiCalls.push([accountId, searchFor].join(':'));
+          return [];
         },
+        { name: 'queryGetRecipes' },
       );
 
-      // define a mutation which we'll have as a trigger for cache update
-      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
-        async (
-          _: { recipeUuid: string },
-          __: { cache: RemoteStateCache },
-        ) => {},
-        {
-          name: 'mutationDeleteRecipe',
+      // define a mutation which invalidates every cached query of an account
+      const inputsReceived: any[] = [];
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async (_: { accountId: string; recipe: Recipe }) => {},
+        { name: 'mutationAddRecipe' },
+      );
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ mutationInput, cachedQueryInputs }) => {
+            inputsReceived.push(...cachedQueryInputs);
+            return {
+              inputs: (input) =>
+                input[0].accountId === mutationInput[0].accountId,
+            };
+          },
+        },
+      });
+
+      // populate the cache for two accounts
+      await queryGetRecipes.execute({ accountId: 'a', searchFor: 'steak' });
+      await queryGetRecipes.execute({ accountId: 'a', searchFor: 'smoothie' });
+      await queryGetRecipes.execute({ accountId: 'b', searchFor: 'steak' });
+      expect(apiCalls.length).toEqual(3);
+
+      // execute the mutation for one account
+      await mutationAddRecipe.execute({
+        accountId: 'a',
+        recipe: { title: 'steak', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that the trigger received the decoded inputs
+      expect(inputsReceived).toContainEqual({
+        key: expect.stringMatching(/^queryGetRecipes\./),
+        input: [{ accountId: 'b', searchFor: 'steak' }],
+      });
+
+      // prove that only the entries of that account were invalidated
+      await queryGetRecipes.execute({ accountId: 'a', searchFor: 'steak' });
+      await queryGetRecipes.execute({ accountId: 'a', searchFor: 'smoothie' });
+      await queryGetRecipes.execute({ accountId: 'b', searchFor: 'steak' });
+      expect(apiCalls.length).toEqual(5);
+    });
+    it('should decode the inputs of the cached entries with the types json does not support, so triggers can select and refetch them', async () => {
+      // define a query whose input includes a date
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache: createRemoteStateCacheInMemory(),
+      });
+      const apiCalls: string[] = [];
+      const queryGetRecipesSince = withRemoteStateQueryCaching(
+        async ({ since }: { since: Date }): Promise<string[]> => {
+          apiCalls.push(since.toISOString()); // throws if the date was decoded as a string
+          return [];
         },
+        { name: 'queryGetRecipesSince' },
       );
 
-      // define a query that we'll be caching
-      const apiCalls = [];
+      // define a mutation which refetches the entries selected by an input predicate on the date
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async (_: { title: string }) => null,
+        { name: 'mutationAddRecipe' },
+      );
+      queryGetRecipesSince.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [MutationExecutionPhase.AFTER_RESOLVE],
+          refetch: { mode: RemoteStateQueryRefetchMode.AWAITED },
+          affects: () => ({
+            inputs: (input) => input[0].since.getFullYear() === 2020,
+          }),
+        },
+      });
+      await queryGetRecipesSince.execute({
+        since: new Date('2020-01-01T00:00:00.000Z'),
+      });
+      await queryGetRecipesSince.execute({
+        since: new Date('2010-01-01T00:00:00.000Z'),
+      });
+      expect(apiCalls).toHaveLength(2);
+
+      // prove that the entry selected by its date was refetched, under the same key it is read by
+      await mutationAddRecipe.execute({ title: 'steak' });
+      expect(apiCalls).toEqual([
+        '2020-01-01T00:00:00.000Z',
+        '2010-01-01T00:00:00.000Z',
+        '2020-01-01T00:00:00.000Z',
+      ]);
+      await queryGetRecipesSince.execute({
+        since: new Date('2020-01-01T00:00:00.000Z'),
+      });
+      expect(apiCalls).toHaveLength(3); // served from the refetched entry
+    });
+    it('should run every trigger added for the same mutation, in the order they were added', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+
+      // define the operations
+      const apiCalls: string[] = [];
       const queryGetRecipes = withRemoteStateQueryCaching(
-        async (
-          { searchFor }: { searchFor: string },
-          _: { cache: RemoteStateCache },
-        ): Promise<HasMetadata<Recipe>[]> => {
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
           apiCalls.push(searchFor);
-          return [
-            {
-              uuid: uuid(),
-              title: '__TITLE__',
-              description: '__DESCRIPTION__',
-              ingredients: [],
-              steps: [],
-            },
-          ];
-        },
-        {
-          name: 'queryGetRecipes',
+          return [];
         },
+        { name: 'queryGetRecipes' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
       );
 
-      // assign the invalidatedBy and updatedBy triggers
+      // add two invalidation triggers and two update triggers for the same mutation
       queryGetRecipes.addTrigger({
         invalidatedBy: {
           mutation: mutationAddRecipe,
-          affects: ({ mutationInput }) => ({
-            inputs: mutationInput[0].recipe.title
-              .split(' ')
-              .map((substring) => [
-                { searchFor: substring },
-                { cache: mutationInput[1].cache },
-              ]), // invalidate every query that was run on a word in the title of the recipe (note: this is not a good real-world example, but does the job for testing)
+          affects: () => ({ inputs: [[{ searchFor: 'steak' }]] }),
+        },
+      });
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({
+            inputs: [[{ searchFor: 'steak' }], [{ searchFor: 'tacos' }]], // overlaps with the first trigger
           }),
         },
       });
       queryGetRecipes.addTrigger({
         updatedBy: {
-          mutation: mutationDeleteRecipe,
-          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }), // update _all_ keys, since we dont know which ones will have included this recipe
-          update: ({ from: { cachedQueryOutput }, with: { mutationInput } }) =>
-            cachedQueryOutput.then((recipes) =>
-              recipes.filter(
-                (recipe) => recipe.uuid !== mutationInput[0].recipeUuid,
-              ),
-            ),
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'smoothie' }]] }),
+          update: ({ from: { cachedQueryOutput } }) =>
+            cachedQueryOutput.then((titles) => [...titles, 'first']),
+        },
+      });
+      queryGetRecipes.addTrigger({
+        updatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'smoothie' }]] }),
+          update: ({ from: { cachedQueryOutput } }) =>
+            cachedQueryOutput.then((titles) => [...titles, 'second']),
         },
       });
 
-      // initialize a cache we'll use for the requests in input
-      const cache = createCache();
+      // populate the cache
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await queryGetRecipes.execute({ searchFor: 'tacos' });
+      await queryGetRecipes.execute({ searchFor: 'smoothie' });
+      expect(apiCalls.length).toEqual(3);
 
-      // make a few requests
-      const result1 = await queryGetRecipes.execute(
-        { searchFor: 'steak' },
-        { cache },
-      );
-      const result2 = await queryGetRecipes.execute(
-        { searchFor: 'smoothie' },
-        { cache },
-      );
-      const result3 = await queryGetRecipes.execute(
-        { searchFor: 'steak' },
-        { cache },
+      // execute the mutation
+      await mutationAddRecipe.execute({
+        recipe: { title: 'steak', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that both invalidation triggers ran
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await queryGetRecipes.execute({ searchFor: 'tacos' });
+      expect(apiCalls.length).toEqual(5);
+
+      // prove that both update triggers ran, in order (note: the updates ran before and after the mutation)
+      const smoothies = await queryGetRecipes.execute({
+        searchFor: 'smoothie',
+      });
+      expect(smoothies).toEqual(['first', 'second', 'first', 'second']);
+      expect(apiCalls.length).toEqual(5);
+    });
+    it('should evaluate triggers in a distinct pending phase before the mutation runs, and only in the phases they opt in to', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<string[]> => [],
+        { name: 'queryGetRecipes' },
       );
-      const result4 = await queryGetRecipes.execute(
-        { searchFor: 'smoothie' },
-        { cache },
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => {
+          if (recipe.title === 'fail') throw new Error('could not add');
+          return recipe;
+        },
+        { name: 'mutationAddRecipe' },
       );
 
-      // prove that subsequent duplicate requests returned the same result
-      expect(result3).toEqual(result1);
-      expect(result4).toEqual(result2);
-
-      // prove that we only called the api twice, once per unique request, since dupe request responses should have come from cache
-      expect(apiCalls.length).toEqual(2);
+      // add a trigger for every phase and a trigger for only after resolve
+      const evaluatedInEveryPhase: [MutationExecutionPhase, string][] = [];
+      const evaluatedAfterResolve: (Recipe | null)[] = [];
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ mutationPhase, mutationStatus }) => {
+            evaluatedInEveryPhase.push([mutationPhase, mutationStatus]);
+            return {};
+          },
+        },
+      });
+      queryGetRecipes.addTrigger({
+        updatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [MutationExecutionPhase.AFTER_RESOLVE],
+          affects: ({ mutationOutput }) => {
+            evaluatedAfterResolve.push(mutationOutput);
+            return {};
+          },
+          update: ({ from: { cachedQueryOutput } }) => cachedQueryOutput,
+        },
+      });
 
-      // execute mutation to add a recipe which includes the word 'steak' in the title
-      await mutationAddRecipe.execute(
-        {
+      // execute the mutation successfully, then with a failure
+      await mutationAddRecipe.execute({
+        recipe: { title: 'steak', description: '', ingredients: [], steps: [] },
+      });
+      await mutationAddRecipe
+        .execute({
           recipe: {
-            title: 'perfect, jalapeno t-bone steak',
-            description:
-              'a juicy, perfectly cooked, spicy, jalapeno t-bone steak',
+            title: 'fail',
+            description: '',
             ingredients: [],
             steps: [],
           },
+        })
+        .catch(() => {});
+
+      // prove that the phases and statuses were reported truthfully
+      expect(evaluatedInEveryPhase).toEqual([
+        [MutationExecutionPhase.BEFORE, MutationExecutionStatus.PENDING],
+        [
+          MutationExecutionPhase.AFTER_RESOLVE,
+          MutationExecutionStatus.RESOLVED,
+        ],
+        [MutationExecutionPhase.BEFORE, MutationExecutionStatus.PENDING],
+        [MutationExecutionPhase.AFTER_REJECT, MutationExecutionStatus.REJECTED],
+      ]);
+
+      // prove that the opted in trigger was only evaluated after resolve, with the real output
+      expect(evaluatedAfterResolve).toEqual([
+        { title: 'steak', description: '', ingredients: [], steps: [] },
+      ]);
+    });
+    it('should optimistically update a query cache before the mutation runs, rolling back on rejection and reconciling on resolution', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+      const database: string[] = ['steak'];
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<string[]> => [...database],
+        { name: 'queryGetRecipeTitles' },
+      );
+      const titlesSeenDuringMutation: string[][] = [];
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => {
+          titlesSeenDuringMutation.push(
+            await queryGetRecipeTitles.execute({ searchFor: 'all' }),
+          );
+          if (recipe.title === 'fail') throw new Error('could not add');
+          database.push(recipe.title);
+          return { ...recipe, uuid: uuid() };
         },
-        { cache },
+        { name: 'mutationAddRecipe' },
       );
+      queryGetRecipeTitles.addTrigger({
+        optimisticallyUpdatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+          update: async ({
+            from: { cachedQueryOutput },
+            with: {
+              mutationInput: [{ recipe }],
+            },
+          }) => [...(await cachedQueryOutput), `${recipe.title} (pending)`],
+          reconcile: async ({
+            from: { cachedQueryOutput },
+            with: { mutationOutput },
+          }) =>
+            (await cachedQueryOutput).map((title) =>
+              title === `${mutationOutput.title} (pending)`
+                ? mutationOutput.title
+                : title,
+            ),
+        },
+      });
 
-      // prove that we invalidated the request
-      const result5 = await queryGetRecipes.execute(
-        { searchFor: 'steak' },
-        { cache },
-      );
-      expect(result5).not.toEqual(result1); // should have gotten a different result after cache invalidation
-      expect(apiCalls.length).toEqual(3); // and should have called the api after cache invalidation
+      // populate the cache
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+      ]);
 
-      // execute mutation to delete a recipe we've previously found for smoothie
-      await mutationDeleteRecipe.execute(
-        { recipeUuid: result2[0]!.uuid },
-        { cache },
-      );
+      // execute a mutation which fails
+      const error = await mutationAddRecipe
+        .execute({
+          recipe: {
+            title: 'fail',
+            description: '',
+            ingredients: [],
+            steps: [],
+          },
+        })
+        .catch((caught) => caught);
+      expect(error.message).toEqual('could not add');
 
-      // prove that we updated the cached value for that request
-      const result6 = await queryGetRecipes.execute(
-        { searchFor: 'smoothie' },
-        { cache },
-      );
-      expect(result2.length).toEqual(1);
-      expect(result6.length).toEqual(0); // should no longer have any results, since our updatedBy trigger should have removed the recipe by uuid
-      expect(apiCalls.length).toEqual(3); // should not have had another api call, since we updated the cache, not invalidated it
+      // prove that the optimistic update was visible during the mutation, but was rolled back after it rejected
+      expect(titlesSeenDuringMutation[0]).toEqual(['steak', 'fail (pending)']);
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+      ]);
+
+      // execute a mutation which succeeds
+      await mutationAddRecipe.execute({
+        recipe: { title: 'tofu', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that the optimistic update was visible during the mutation, and was reconciled with the real output after it resolved
+      expect(titlesSeenDuringMutation[1]).toEqual(['steak', 'tofu (pending)']);
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+        'tofu',
+      ]);
     });
-    it('should still trigger invalidations and updates if the mutation threw an error', async () => {
+    it('should settle every optimistic update of a key, restoring it with the expiry it had left', async () => {
       // start the context
       const {
         withRemoteStateQueryCaching,
         withRemoteStateMutationRegistration,
       } = createRemoteStateCachingContext({ cache: createCache() });
-
-      // define a mutation which we'll have as a trigger for cache invalidation
+      const database: string[] = ['steak'];
+      let executions = 0;
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<string[]> => {
+          executions += 1;
+          return [...database];
+        },
+        { name: 'queryGetRecipeTitles', secondsUntilExpiration: 2 },
+      );
       const mutationAddRecipe = withRemoteStateMutationRegistration(
-        async (_: { recipe: Recipe }) => {
-          throw new Error('surprise!');
+        async ({ recipe }: { recipe: Recipe }) => {
+          if (recipe.title === 'fail') throw new Error('could not add');
+          database.push(recipe.title);
+          return recipe;
         },
         { name: 'mutationAddRecipe' },
       );
-
-      // define a mutation which we'll have as a trigger for cache update
-      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
-        async (_: { recipeUuid: string }) => {
-          throw new Error('surprise!');
+      queryGetRecipeTitles.addTrigger({
+        optimisticallyUpdatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+          update: async ({
+            from: { cachedQueryOutput },
+            with: {
+              mutationInput: [{ recipe }],
+            },
+          }) => [...(await cachedQueryOutput), `${recipe.title} (pending)`],
+          reconcile: async ({ from: { cachedQueryOutput } }) =>
+            (await cachedQueryOutput).map((title) =>
+              title.replace(/ \(pending\)$/i, ''),
+            ),
         },
-        {
-          name: 'mutationDeleteRecipe',
+      });
+      queryGetRecipeTitles.addTrigger({
+        optimisticallyUpdatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+          update: async ({ from: { cachedQueryOutput } }) =>
+            (await cachedQueryOutput).map((title) => title.toUpperCase()),
+          reconcile: async ({ from: { cachedQueryOutput } }) =>
+            (await cachedQueryOutput).map((title) => title.toLowerCase()),
         },
-      );
+      });
 
-      // define a query that we'll be caching
-      const apiCalls = [];
-      const queryGetRecipes = withRemoteStateQueryCaching(
-        async ({
-          searchFor,
-        }: {
-          searchFor: string;
-        }): Promise<HasMetadata<Recipe>[]> => {
-          apiCalls.push(searchFor);
-          return [
-            {
-              uuid: uuid(),
-              title: '__TITLE__',
-              description: '__DESCRIPTION__',
-              ingredients: [],
-              steps: [],
-            },
-          ];
+      // populate the cache, and let part of its expiry pass
+      await queryGetRecipeTitles.execute({ searchFor: 'all' });
+      await sleep(1200);
+
+      // execute a mutation which fails
+      await mutationAddRecipe
+        .execute({
+          recipe: {
+            title: 'fail',
+            description: '',
+            ingredients: [],
+            steps: [],
+          },
+        })
+        .catch(() => {});
+
+      // prove that the value was restored, without extending its expiry
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+      ]);
+      expect(executions).toEqual(1);
+      await sleep(1000);
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+      ]);
+      expect(executions).toEqual(2);
+
+      // execute a mutation which succeeds
+      await mutationAddRecipe.execute({
+        recipe: { title: 'Tofu', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that every trigger reconciled the key
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+        'tofu',
+      ]);
+      expect(executions).toEqual(2);
+    });
+    it('should drop the executions in flight for the keys it optimistically updates, so they do not overwrite the settled value', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+      const database: string[] = ['steak'];
+      let onDatabaseRead = () => {};
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<string[]> => {
+          const titles = [...database]; // read the remote state, then take a while to respond
+          onDatabaseRead();
+          await sleep(200);
+          return titles;
         },
-        {
-          name: 'queryGetRecipes',
+        { name: 'queryGetRecipeTitles' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => {
+          database.push(recipe.title);
+          return recipe;
         },
+        { name: 'mutationAddRecipe' },
       );
+      queryGetRecipeTitles.addTrigger({
+        optimisticallyUpdatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+          update: async ({
+            from: { cachedQueryOutput },
+            with: {
+              mutationInput: [{ recipe }],
+            },
+          }) => [...(await cachedQueryOutput), recipe.title],
+        },
+      });
 
-      // assign the invalidatedBy and updatedBy triggers
-      queryGetRecipes.addTrigger({
+      // start a read, and then run a mutation which optimistically updates its key while it is in flight
+      const databaseRead = new Promise<void>((resolve) => {
+        onDatabaseRead = resolve;
+      });
+      const readBeforeMutation = queryGetRecipeTitles.execute({
+        searchFor: 'all',
+      });
+      await databaseRead;
+      await mutationAddRecipe.execute({
+        recipe: { title: 'tofu', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that the value read before the mutation was not written back to the cache
+      expect(await readBeforeMutation).toEqual(['steak']);
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+        'tofu',
+      ]);
+    });
+    it('should refetch the entries invalidated by a trigger which asks for it, once the mutation completes', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+      const database: string[] = ['steak'];
+      const executions: string[] = [];
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+          executions.push(searchFor);
+          return database.filter((title) => title.includes(searchFor));
+        },
+        { name: 'queryGetRecipeTitles' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => {
+          database.push(recipe.title);
+          return recipe;
+        },
+        { name: 'mutationAddRecipe' },
+      );
+      queryGetRecipeTitles.addTrigger({
         invalidatedBy: {
           mutation: mutationAddRecipe,
-          affects: ({ mutationInput }) => ({
-            inputs: mutationInput[0].recipe.title
-              .split(' ')
-              .map((substring) => [{ searchFor: substring }]), // invalidate every query that was run on a word in the title of the recipe (note: this is not a good real-world example, but does the job for testing)
-          }),
+          affects: () => ({
+            inputs: ([searchInput]) => searchInput.searchFor === 'st',
+          }), // select by key, through the indexed input
+          refetch: { mode: RemoteStateQueryRefetchMode.AWAITED },
         },
       });
-      queryGetRecipes.addTrigger({
-        updatedBy: {
-          mutation: mutationDeleteRecipe,
-          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }), // update _all_ keys, since we dont know which ones will have included this recipe
-          update: ({ from: { cachedQueryOutput }, with: { mutationInput } }) =>
-            cachedQueryOutput.then((recipes) =>
-              recipes.filter(
-                (recipe) => recipe.uuid !== mutationInput[0].recipeUuid,
-              ),
-            ),
+      queryGetRecipeTitles.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'a' }]] }),
+          refetch: {
+            mode: RemoteStateQueryRefetchMode.BACKGROUND,
+            concurrency: 1,
+          },
         },
       });
 
-      // make a few requests
-      const result1 = await queryGetRecipes.execute({ searchFor: 'steak' });
-      const result2 = await queryGetRecipes.execute({ searchFor: 'smoothie' });
-      const result3 = await queryGetRecipes.execute({ searchFor: 'steak' });
-      const result4 = await queryGetRecipes.execute({ searchFor: 'smoothie' });
+      // populate the cache
+      await queryGetRecipeTitles.execute({ searchFor: 'st' });
+      await queryGetRecipeTitles.execute({ searchFor: 'a' });
+      expect(executions).toEqual(['st', 'a']);
 
-      // prove that subsequent duplicate requests returned the same result
-      expect(result3).toEqual(result1);
-      expect(result4).toEqual(result2);
+      // execute the mutation
+      await mutationAddRecipe.execute({
+        recipe: { title: 'stew', description: '', ingredients: [], steps: [] },
+      });
 
-      // prove that we only called the api twice, once per unique request, since dupe request responses should have come from cache
-      expect(apiCalls.length).toEqual(2);
+      // prove that the awaited refetch already re-warmed its entry, only after the mutation completed
+      expect(executions.filter((searchFor) => searchFor === 'st')).toEqual([
+        'st',
+        'st',
+      ]);
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'st' })).toEqual([
+        'steak',
+        'stew',
+      ]);
+
+      // prove that the background refetch re-warmed its entry too
+      await sleep(50);
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'a' })).toEqual([
+        'steak',
+      ]);
+      expect(executions.filter((searchFor) => searchFor === 'a')).toEqual([
+        'a',
+        'a',
+      ]);
+    });
+    it('should throw an error if the exact same trigger is added twice', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
+      );
 
-      // execute mutation to add a recipe which includes the word 'steak' in the title, but which threw an error
-      try {
-        await mutationAddRecipe.execute({
-          recipe: {
-            title: 'perfect, jalapeno t-bone steak',
-            description:
-              'a juicy, perfectly cooked, spicy, jalapeno t-bone steak',
-            ingredients: [],
-            steps: [],
-          },
-        });
-        throw new Error('should not reach here');
-      } catch (error) {
-        if (!(error instanceof Error)) throw error;
-        expect(error.message).toEqual('surprise!');
-      }
+      // add the trigger once
+      const trigger = {
+        mutation: mutationAddRecipe,
+        affects: () => ({
+          inputs: [[{ searchFor: 'steak' }] as [{ searchFor: string }]],
+        }),
+      };
+      queryGetRecipes.addTrigger({ invalidatedBy: trigger });
 
-      // prove that we invalidated the request
-      const result5 = await queryGetRecipes.execute({ searchFor: 'steak' });
-      expect(result5).not.toEqual(result1); // should have gotten a different result after cache invalidation
-      expect(apiCalls.length).toEqual(3); // and should have called the api after cache invalidation
+      // prove that adding it again throws
+      expect(() =>
+        queryGetRecipes.addTrigger({ invalidatedBy: trigger }),
+      ).toThrow('this exact trigger was already added to the query');
+    });
+    it('should only give a query the cached keys it owns, even when another query name starts with its name', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
 
-      // execute mutation to delete a recipe we've previously found for smoothie
-      try {
-        await mutationDeleteRecipe.execute({ recipeUuid: result2[0]!.uuid });
-        throw new Error('should not reach here');
-      } catch (error) {
-        if (!(error instanceof Error)) throw error;
-        expect(error.message).toEqual('surprise!');
-      }
+      // define two queries, where one name is a prefix of the other
+      const queryGetRecipe = withRemoteStateQueryCaching(
+        async (_: { uuid: string }): Promise<Recipe | null> => null,
+        { name: 'queryGetRecipe' },
+      );
+      const queryGetRecipeByTitle = withRemoteStateQueryCaching(
+        async (_: { title: string }): Promise<Recipe | null> => null,
+        { name: 'queryGetRecipeByTitle' },
+      );
 
-      // prove that we updated the cached value for that request
-      const result6 = await queryGetRecipes.execute({ searchFor: 'smoothie' });
-      expect(result2.length).toEqual(1);
-      expect(result6.length).toEqual(0); // should no longer have any results, since our updatedBy trigger should have removed the recipe by uuid
-      expect(apiCalls.length).toEqual(3); // should not have had another api call, since we updated the cache, not invalidated it
-    });
-  });
+      // track the keys the trigger of the shorter named query receives
+      const keysReceived: string[][] = [];
+      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
+        async (_: { recipeUuid: string }) => {},
+        { name: 'mutationDeleteRecipe' },
+      );
+      queryGetRecipe.addTrigger({
+        invalidatedBy: {
+          mutation: mutationDeleteRecipe,
+          affects: ({ cachedQueryKeys }) => {
+            keysReceived.push(cachedQueryKeys);
+            return { keys: cachedQueryKeys };
+          },
+        },
+      });
 
-  describe('ephemeral contexts', () => {
-    /**
-     * define a method which returns a totally new execution context, but uses the same cache
-     *
-     * relevance
-     * - this is to simulate running operations from the same cache against different processes, which is the most common use case in the real world
-     * - for example, consider the following operations w/ an aws-s3 based cache
-     *   - invoking node to run a query, subsequently invoking node to run a mutation or another query
-     *   - running queries in parallel across different serverless functions
-     *   - etc
-     * - in each case
-     *   - a new context is built for each operation
-     *   - each context just happens to reference the same cache (e.g., one persisted on disk)
-     */
-    const getNewExecutionContextOperations = ({
-      apiCalls,
-    }: {
-      apiCalls: any[];
-    }) => {
+      // populate the cache for both
+      await queryGetRecipe.execute({ uuid: '__UUID__' });
+      await queryGetRecipeByTitle.execute({ title: '__TITLE__' });
+
+      // prove that the trigger only received the keys of its own query
+      await mutationDeleteRecipe.execute({ recipeUuid: '__UUID__' });
+      expect(keysReceived[0]!.length).toEqual(1);
+      expect(keysReceived[0]![0]).toMatch(/^queryGetRecipe\./);
+    });
+    it('should not allow registering a query with a name which would make its keys ambiguous', async () => {
+      const { withRemoteStateQueryCaching } = createRemoteStateCachingContext({
+        cache: createCache(),
+      });
+      expect(() =>
+        withRemoteStateQueryCaching(async () => null, {
+          name: 'recipes.get',
+        }),
+      ).toThrow('includes the key namespace delimiter');
+    });
+    it('should be possible to invalidate and update a query cache from mutation, when cache is pulled from input at runtime', async () => {
       // start the context
       const {
         withRemoteStateQueryCaching,
@@ -564,7 +954,7 @@ describe('createRemoteStateCachingContext', () => {
       const mutationAddRecipe = withRemoteStateMutationRegistration(
         async (
           { recipe }: { recipe: Recipe },
-          _: { cache: SimpleCache<any> },
+          _: { cache: RemoteStateCache },
         ) => recipe,
         {
           name: 'mutationAddRecipe',
@@ -575,7 +965,7 @@ describe('createRemoteStateCachingContext', () => {
       const mutationDeleteRecipe = withRemoteStateMutationRegistration(
         async (
           _: { recipeUuid: string },
-          __: { cache: SimpleCache<any> },
+          __: { cache: RemoteStateCache },
         ) => {},
         {
           name: 'mutationDeleteRecipe',
@@ -583,10 +973,11 @@ describe('createRemoteStateCachingContext', () => {
       );
 
       // define a query that we'll be caching
+      const apiCalls = [];
       const queryGetRecipes = withRemoteStateQueryCaching(
         async (
           { searchFor }: { searchFor: string },
-          _: { cache: SimpleCache<any> },
+          _: { cache: RemoteStateCache },
         ): Promise<HasMetadata<Recipe>[]> => {
           apiCalls.push(searchFor);
           return [
@@ -631,41 +1022,23 @@ describe('createRemoteStateCachingContext', () => {
         },
       });
 
-      return {
-        queryGetRecipes,
-        mutationAddRecipe,
-        mutationDeleteRecipe,
-        apiCalls,
-      };
-    };
-
-    it('should be possible to invalidate and update a query cache from mutation, when multiple contexts are used, simulating separate processes', async () => {
-      // track api calls across all contexts
-      const apiCalls: any[] = [];
-
-      // initialize a cache we'll use for the requests in input, across all contexts
+      // initialize a cache we'll use for the requests in input
       const cache = createCache();
 
-      // run a couple queries against one context
-      const { queryGetRecipes: queryGetRecipesA } =
-        getNewExecutionContextOperations({ apiCalls });
-      const result1 = await queryGetRecipesA.execute(
+      // make a few requests
+      const result1 = await queryGetRecipes.execute(
         { searchFor: 'steak' },
         { cache },
       );
-      const result2 = await queryGetRecipesA.execute(
+      const result2 = await queryGetRecipes.execute(
         { searchFor: 'smoothie' },
         { cache },
       );
-
-      // run a couple queries against another context
-      const { queryGetRecipes: queryGetRecipesB } =
-        getNewExecutionContextOperations({ apiCalls });
-      const result3 = await queryGetRecipesB.execute(
+      const result3 = await queryGetRecipes.execute(
         { searchFor: 'steak' },
         { cache },
       );
-      const result4 = await queryGetRecipesB.execute(
+      const result4 = await queryGetRecipes.execute(
         { searchFor: 'smoothie' },
         { cache },
       );
@@ -677,10 +1050,7 @@ describe('createRemoteStateCachingContext', () => {
       // prove that we only called the api twice, once per unique request, since dupe request responses should have come from cache
       expect(apiCalls.length).toEqual(2);
 
-      // execute mutation to add a recipe which includes the word 'steak' in the title, in a different context
-      const { mutationAddRecipe } = getNewExecutionContextOperations({
-        apiCalls,
-      });
+      // execute mutation to add a recipe which includes the word 'steak' in the title
       await mutationAddRecipe.execute(
         {
           recipe: {
@@ -695,24 +1065,21 @@ describe('createRemoteStateCachingContext', () => {
       );
 
       // prove that we invalidated the request
-      const result5 = await queryGetRecipesA.execute(
+      const result5 = await queryGetRecipes.execute(
         { searchFor: 'steak' },
         { cache },
       );
       expect(result5).not.toEqual(result1); // should have gotten a different result after cache invalidation
       expect(apiCalls.length).toEqual(3); // and should have called the api after cache invalidation
 
-      // execute mutation to delete a recipe we've previously found for smoothie, in another different context
-      const { mutationDeleteRecipe } = getNewExecutionContextOperations({
-        apiCalls,
-      });
+      // execute mutation to delete a recipe we've previously found for smoothie
       await mutationDeleteRecipe.execute(
         { recipeUuid: result2[0]!.uuid },
         { cache },
       );
 
       // prove that we updated the cached value for that request
-      const result6 = await queryGetRecipesA.execute(
+      const result6 = await queryGetRecipes.execute(
         { searchFor: 'smoothie' },
         { cache },
       );
@@ -720,24 +1087,2489 @@ describe('createRemoteStateCachingContext', () => {
       expect(result6.length).toEqual(0); // should no longer have any results, since our updatedBy trigger should have removed the recipe by uuid
       expect(apiCalls.length).toEqual(3); // should not have had another api call, since we updated the cache, not invalidated it
     });
-  });
-  describe('(de)serialization', () => {
-    it('should allow user to specify default context level serialization and deserialization', async () => {
+    it('should still trigger invalidations and updates if the mutation threw an error', async () => {
       // start the context
-      const { withRemoteStateQueryCaching } = createRemoteStateCachingContext({
-        cache: createCache(),
-        serialize: {
-          value: (output) => JSON.stringify(output),
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+
+      // define a mutation which we'll have as a trigger for cache invalidation
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async (_: { recipe: Recipe }) => {
+          throw new Error('surprise!');
         },
-        deserialize: {
-          value: (cached) => JSON.parse(cached),
+        { name: 'mutationAddRecipe' },
+      );
+
+      // define a mutation which we'll have as a trigger for cache update
+      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
+        async (_: { recipeUuid: string }) => {
+          throw new Error('surprise!');
         },
-      });
+        {
+          name: 'mutationDeleteRecipe',
+        },
+      );
 
       // define a query that we'll be caching
       const apiCalls = [];
       const queryGetRecipes = withRemoteStateQueryCaching(
-        async ({ searchFor }: { searchFor: string }): Promise<Recipe[]> => {
+        async ({
+          searchFor,
+        }: {
+          searchFor: string;
+        }): Promise<HasMetadata<Recipe>[]> => {
+          apiCalls.push(searchFor);
+          return [
+            {
+              uuid: uuid(),
+              title: '__TITLE__',
+              description: '__DESCRIPTION__',
+              ingredients: [],
+              steps: [],
+            },
+          ];
+        },
+        {
+          name: 'queryGetRecipes',
+        },
+      );
+
+      // assign the invalidatedBy and updatedBy triggers
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ mutationInput }) => ({
+            inputs: mutationInput[0].recipe.title
+              .split(' ')
+              .map((substring) => [{ searchFor: substring }]), // invalidate every query that was run on a word in the title of the recipe (note: this is not a good real-world example, but does the job for testing)
+          }),
+        },
+      });
+      queryGetRecipes.addTrigger({
+        updatedBy: {
+          mutation: mutationDeleteRecipe,
+          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }), // update _all_ keys, since we dont know which ones will have included this recipe
+          update: ({ from: { cachedQueryOutput }, with: { mutationInput } }) =>
+            cachedQueryOutput.then((recipes) =>
+              recipes.filter(
+                (recipe) => recipe.uuid !== mutationInput[0].recipeUuid,
+              ),
+            ),
+        },
+      });
+
+      // make a few requests
+      const result1 = await queryGetRecipes.execute({ searchFor: 'steak' });
+      const result2 = await queryGetRecipes.execute({ searchFor: 'smoothie' });
+      const result3 = await queryGetRecipes.execute({ searchFor: 'steak' });
+      const result4 = await queryGetRecipes.execute({ searchFor: 'smoothie' });
+
+      // prove that subsequent duplicate requests returned the same result
+      expect(result3).toEqual(result1);
+      expect(result4).toEqual(result2);
+
+      // prove that we only called the api twice, once per unique request, since dupe request responses should have come from cache
+      expect(apiCalls.length).toEqual(2);
+
+      // execute mutation to add a recipe which includes the word 'steak' in the title, but which threw an error
+      try {
+        await mutationAddRecipe.execute({
+          recipe: {
+            title: 'perfect, jalapeno t-bone steak',
+            description:
+              'a juicy, perfectly cooked, spicy, jalapeno t-bone steak',
+            ingredients: [],
+            steps: [],
+          },
+        });
+        throw new Error('should not reach here');
+      } catch (error) {
+        if (!(error instanceof Error)) throw error;
+        expect(error.message).toEqual('surprise!');
+      }
+
+      // prove that we invalidated the request
+      const result5 = await queryGetRecipes.execute({ searchFor: 'steak' });
+      expect(result5).not.toEqual(result1); // should have gotten a different result after cache invalidation
+      expect(apiCalls.length).toEqual(3); // and should have called the api after cache invalidation
+
+      // execute mutation to delete a recipe we've previously found for smoothie
+      try {
+        await mutationDeleteRecipe.execute({ recipeUuid: result2[0]!.uuid });
+        throw new Error('should not reach here');
+      } catch (error) {
+        if (!(error instanceof Error)) throw error;
+        expect(error.message).toEqual('surprise!');
+      }
+
+      // prove that we updated the cached value for that request
+      const result6 = await queryGetRecipes.execute({ searchFor: 'smoothie' });
+      expect(result2.length).toEqual(1);
+      expect(result6.length).toEqual(0); // should no longer have any results, since our updatedBy trigger should have removed the recipe by uuid
+      expect(apiCalls.length).toEqual(3); // should not have had another api call, since we updated the cache, not invalidated it
+    });
+  });
+
+  describe('ephemeral contexts', () => {
+    /**
+     * define a method which returns a totally new execution context, but uses the same cache
+     *
+     * relevance
+     * - this is to simulate running operations from the same cache against different processes, which is the most common use case in the real world
+     * - for example, consider the following operations w/ an aws-s3 based cache
+     *   - invoking node to run a query, subsequently invoking node to run a mutation or another query
+     *   - running queries in parallel across different serverless functions
+     *   - etc
+     * - in each case
+     *   - a new context is built for each operation
+     *   - each context just happens to reference the same cache (e.g., one persisted on disk)
+     */
+    const getNewExecutionContextOperations = ({
+      apiCalls,
+    }: {
+      apiCalls: any[];
+    }) => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache: ({ fromInput }) => fromInput[1].cache,
+      });
+
+      // define a mutation which we'll have as a trigger for cache invalidation
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async (
+          { recipe }: { recipe: Recipe },
+          _: { cache: SimpleCache<any> },
+        ) => recipe,
+        {
+          name: 'mutationAddRecipe',
+        },
+      );
+
+      // define a mutation which we'll have as a trigger for cache update
+      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
+        async (
+          _: { recipeUuid: string },
+          __: { cache: SimpleCache<any> },
+        ) => {},
+        {
+          name: 'mutationDeleteRecipe',
+        },
+      );
+
+      // define a query that we'll be caching
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (
+          { searchFor }: { searchFor: string },
+          _: { cache: SimpleCache<any> },
+        ): Promise<HasMetadata<Recipe>[]> => {
+          apiCalls.push(searchFor);
+          return [
+            {
+              uuid: uuid(),
+              title: '__TITLE__',
+              description: '__DESCRIPTION__',
+              ingredients: [],
+              steps: [],
+            },
+          ];
+        },
+        {
+          name: 'queryGetRecipes',
+        },
+      );
+
+      // assign the invalidatedBy and updatedBy triggers
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ mutationInput }) => ({
+            inputs: mutationInput[0].recipe.title
+              .split(' ')
+              .map((substring) => [
+                { searchFor: substring },
+                { cache: mutationInput[1].cache },
+              ]), // invalidate every query that was run on a word in the title of the recipe (note: this is not a good real-world example, but does the job for testing)
+          }),
+        },
+      });
+      queryGetRecipes.addTrigger({
+        updatedBy: {
+          mutation: mutationDeleteRecipe,
+          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }), // update _all_ keys, since we dont know which ones will have included this recipe
+          update: ({ from: { cachedQueryOutput }, with: { mutationInput } }) =>
+            cachedQueryOutput.then((recipes) =>
+              recipes.filter(
+                (recipe) => recipe.uuid !== mutationInput[0].recipeUuid,
+              ),
+            ),
+        },
+      });
+
+      return {
+        queryGetRecipes,
+        mutationAddRecipe,
+        mutationDeleteRecipe,
+        apiCalls,
+      };
+    };
+
+    it('should be possible to invalidate and update a query cache from mutation, when multiple contexts are used, simulating separate processes', async () => {
+      // track api calls across all contexts
+      const apiCalls: any[] = [];
+
+      // initialize a cache we'll use for the requests in input, across all contexts
+      const cache = createCache();
+
+      // run a couple queries against one context
+      const { queryGetRecipes: queryGetRecipesA } =
+        getNewExecutionContextOperations({ apiCalls });
+      const result1 = await queryGetRecipesA.execute(
+        { searchFor: 'steak' },
+        { cache },
+      );
+      const result2 = await queryGetRecipesA.execute(
+        { searchFor: 'smoothie' },
+        { cache },
+      );
+
+      // run a couple queries against another context
+      const { queryGetRecipes: queryGetRecipesB } =
+        getNewExecutionContextOperations({ apiCalls });
+      const result3 = await queryGetRecipesB.execute(
+        { searchFor: 'steak' },
+        { cache },
+      );
+      const result4 = await queryGetRecipesB.execute(
+        { searchFor: 'smoothie' },
+        { cache },
+      );
+
+      // prove that subsequent duplicate requests returned the same result
+      expect(result3).toEqual(result1);
+      expect(result4).toEqual(result2);
+
+      // prove that we only called the api twice, once per unique request, since dupe request responses should have come from cache
+      expect(apiCalls.length).toEqual(2);
+
+      // execute mutation to add a recipe which includes the word 'steak' in the title, in a different context
+      const { mutationAddRecipe } = getNewExecutionContextOperations({
+        apiCalls,
+      });
+      await mutationAddRecipe.execute(
+        {
+          recipe: {
+            title: 'perfect, jalapeno t-bone steak',
+            description:
+              'a juicy, perfectly cooked, spicy, jalapeno t-bone steak',
+            ingredients: [],
+            steps: [],
+          },
+        },
+        { cache },
+      );
+
+      // prove that we invalidated the request
+      const result5 = await queryGetRecipesA.execute(
+        { searchFor: 'steak' },
+        { cache },
+      );
+      expect(result5).not.toEqual(result1); // should have gotten a different result after cache invalidation
+      expect(apiCalls.length).toEqual(3); // and should have called the api after cache invalidation
+
+      // execute mutation to delete a recipe we've previously found for smoothie, in another different context
+      const { mutationDeleteRecipe } = getNewExecutionContextOperations({
+        apiCalls,
+      });
+      await mutationDeleteRecipe.execute(
+        { recipeUuid: result2[0]!.uuid },
+        { cache },
+      );
+
+      // prove that we updated the cached value for that request
+      const result6 = await queryGetRecipesA.execute(
+        { searchFor: 'smoothie' },
+        { cache },
+      );
+      expect(result2.length).toEqual(1);
+      expect(result6.length).toEqual(0); // should no longer have any results, since our updatedBy trigger should have removed the recipe by uuid
+      expect(apiCalls.length).toEqual(3); // should not have had another api call, since we updated the cache, not invalidated it
+    });
+  });
+  describe('tags', () => {
+    it('should invalidate every cached entry which carries a tag touched by a mutation, regardless of which query produced it', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+
+      // define two queries which tag their outputs
+      const apiCalls: string[] = [];
+      const queryGetRecipe = withRemoteStateQueryCaching(
+        async ({ uuid: recipeUuid }: { uuid: string }): Promise<Recipe> => {
+          apiCalls.push(recipeUuid);
+          return {
+            uuid: recipeUuid,
+            title: '__TITLE__',
+            description: '__DESCRIPTION__',
+            ingredients: [],
+            steps: [],
+          };
+        },
+        {
+          name: 'queryGetRecipe',
+          tags: ({ input }) => [`recipe:${input[0].uuid}`],
+        },
+      );
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<Recipe[]> => {
+          apiCalls.push(searchFor);
+          return [
+            {
+              uuid: 'recipe-1',
+              title: '__TITLE__',
+              description: '__DESCRIPTION__',
+              ingredients: [],
+              steps: [],
+            },
+          ];
+        },
+        {
+          name: 'queryGetRecipes',
+          tags: ({ output }) => output.map((recipe) => `recipe:${recipe.uuid}`),
+        },
+      );
+
+      // define a mutation which touches a tag, without any pairwise triggers
+      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
+        async (_: { recipeUuid: string }) => {},
+        {
+          name: 'mutationDeleteRecipe',
+          touches: ({ mutationInput }) => [
+            `recipe:${mutationInput[0].recipeUuid}`,
+          ],
+        },
+      );
+
+      // populate the cache
+      await queryGetRecipe.execute({ uuid: 'recipe-1' });
+      await queryGetRecipe.execute({ uuid: 'recipe-2' });
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      expect(apiCalls.length).toEqual(3);
+
+      // execute the mutation
+      await mutationDeleteRecipe.execute({ recipeUuid: 'recipe-1' });
+
+      // prove that both queries' entries tagged with the recipe were invalidated
+      await queryGetRecipe.execute({ uuid: 'recipe-1' });
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      expect(apiCalls.length).toEqual(5);
+
+      // prove that the entry without the tag was not invalidated
+      await queryGetRecipe.execute({ uuid: 'recipe-2' });
+      expect(apiCalls.length).toEqual(5);
+    });
+    it('should not drop the entries tagged concurrently, whether or not the cache supports sets', async () => {
+      for (const cache of [
+        createRemoteStateCacheOnDisk({ directory: `${cacheDir}/${uuid()}` }),
+        { ...createRemoteStateCacheInMemory(), sets: undefined },
+      ]) {
+        // define a query whose outputs are tagged, and a mutation which touches the tag
+        const {
+          withRemoteStateQueryCaching,
+          withRemoteStateMutationRegistration,
+        } = createRemoteStateCachingContext({ cache });
+        const apiCalls: string[] = [];
+        const queryGetRecipe = withRemoteStateQueryCaching(
+          async ({ id }: { id: string }): Promise<{ id: string }> => {
+            apiCalls.push(id);
+            return { id };
+          },
+          { name: 'queryGetRecipe', tags: () => ['recipes'] },
+        );
+        const mutationAddRecipe = withRemoteStateMutationRegistration(
+          async (_: { title: string }) => null,
+          { name: 'mutationAddRecipe', touches: () => ['recipes'] },
+        );
+
+        // cache ten tagged misses concurrently
+        const ids = Array.from({ length: 10 }, (_, index) => `${index}`);
+        await Promise.all(ids.map((id) => queryGetRecipe.execute({ id })));
+        expect(apiCalls).toHaveLength(10);
+
+        // prove that touching the tag invalidates every one of them
+        await mutationAddRecipe.execute({ title: 'tofu' });
+        await Promise.all(ids.map((id) => queryGetRecipe.execute({ id })));
+        expect(apiCalls).toHaveLength(20);
+      }
+    });
+  });
+  describe('stale-while-revalidate', () => {
+    it('should serve stale values immediately while revalidating them in the background, once after they go stale or are marked stale by a mutation', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache: createCache(),
+        staleWhileRevalidate: { secondsUntilStale: 0.2 },
+      });
+      const database: string[] = ['steak'];
+      let executions = 0;
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<string[]> => {
+          executions += 1;
+          return [...database];
+        },
+        { name: 'queryGetRecipeTitles' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => {
+          database.push(recipe.title);
+          return recipe;
+        },
+        { name: 'mutationAddRecipe' },
+      );
+      queryGetRecipeTitles.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [MutationExecutionPhase.AFTER_RESOLVE],
+          strategy: RemoteStateQueryInvalidationStrategy.MARK_STALE,
+          affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+        },
+      });
+
+      // populate the cache
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+      ]);
+      expect(executions).toEqual(1);
+
+      // change the remote state without a mutation, and let the cached value go stale
+      database.push('tofu');
+      await sleep(300);
+
+      // prove that the stale value is served immediately, with only one revalidation started
+      const [first, second] = await Promise.all([
+        queryGetRecipeTitles.execute({ searchFor: 'all' }),
+        queryGetRecipeTitles.execute({ searchFor: 'all' }),
+      ]);
+      expect(first).toEqual(['steak']);
+      expect(second).toEqual(['steak']);
+      await sleep(50);
+      expect(executions).toEqual(2);
+
+      // prove that the revalidated value is served next, without another execution since it is fresh
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+        'tofu',
+      ]);
+      expect(executions).toEqual(2);
+
+      // mark the value stale with a mutation
+      await mutationAddRecipe.execute({
+        recipe: { title: 'salad', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that the stale value is still served, but is revalidated in the background
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+        'tofu',
+      ]);
+      await sleep(50);
+      expect(executions).toEqual(3);
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+        'tofu',
+        'salad',
+      ]);
+    });
+  });
+  describe('in-flight deduplication', () => {
+    it('should share one execution across concurrent calls for the same key, and drop it if the key is invalidated mid-flight', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+      const database: string[] = ['steak'];
+      let executions = 0;
+      let onDatabaseRead = () => {};
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<string[]> => {
+          executions += 1;
+          const titles = [...database]; // read the remote state, then take a while to respond
+          onDatabaseRead();
+          await sleep(200);
+          return titles;
+        },
+        { name: 'queryGetRecipeTitles' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => {
+          database.push(recipe.title);
+          return recipe;
+        },
+        { name: 'mutationAddRecipe' },
+      );
+      queryGetRecipeTitles.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+        },
+      });
+
+      // prove that concurrent calls for the same key share one execution
+      const outputs = await Promise.all(
+        [...Array(10)].map(() =>
+          queryGetRecipeTitles.execute({ searchFor: 'some' }),
+        ),
+      );
+      expect(outputs).toEqual([...Array(10)].map(() => ['steak']));
+      expect(executions).toEqual(1);
+
+      // start a read, and then run a mutation which invalidates its key while it is in flight
+      const databaseRead = new Promise<void>((resolve) => {
+        onDatabaseRead = resolve;
+      });
+      const readBeforeMutation = queryGetRecipeTitles.execute({
+        searchFor: 'all',
+      });
+      await databaseRead;
+      await mutationAddRecipe.execute({
+        recipe: { title: 'tofu', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that a call after the invalidation does not share the dropped execution
+      const readAfterMutation = queryGetRecipeTitles.execute({
+        searchFor: 'all',
+      });
+      expect(await readBeforeMutation).toEqual(['steak']);
+      expect(await readAfterMutation).toEqual(['steak', 'tofu']);
+      expect(executions).toEqual(3);
+
+      // prove that the value read before the mutation was not written back to the cache
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'steak',
+        'tofu',
+      ]);
+      expect(executions).toEqual(3);
+    });
+  });
+  describe('bus', () => {
+    /**
+     * define a method which returns the operations of a new context, as if it were started in a separate process
+     */
+    const getNewPeerContextOperations = ({
+      cache,
+      bus,
+      executions,
+      on,
+    }: {
+      cache: RemoteStateCache;
+      bus: RemoteStateCacheBusOptions;
+      executions: string[];
+      on?: RemoteStateCacheEventSubscribers;
+    }) => {
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache, bus, on });
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+          executions.push(searchFor);
+          await sleep(100);
+          return [searchFor, `${executions.length}`];
+        },
+        { name: 'queryGetRecipeTitles' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
+      );
+      queryGetRecipeTitles.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+        },
+      });
+      return { queryGetRecipeTitles, mutationAddRecipe };
+    };
+    it('should drop the executions in flight of a peer which shares the cache, when a mutation invalidates their key', async () => {
+      // start two peers, which share the cache and an in-memory bus
+      const cache = createCache();
+      const transport = createRemoteStateCacheBusTransportInMemory();
+      const eventsReceivedByPeer: RemoteStateCacheKeyEvent[] = [];
+      const executionsOfPeer: string[] = [];
+      const peer = getNewPeerContextOperations({
+        cache,
+        bus: { transport },
+        executions: executionsOfPeer,
+        on: { invalidate: (event) => eventsReceivedByPeer.push(event) },
+      });
+      const self = getNewPeerContextOperations({
+        cache,
+        bus: { transport },
+        executions: [],
+      });
+
+      // start a read on the peer, and then run a mutation on self which invalidates its key while it is in flight
+      const readOfPeer = peer.queryGetRecipeTitles.execute({
+        searchFor: 'all',
+      });
+      await sleep(20);
+      await self.mutationAddRecipe.execute({
+        recipe: { title: 'tofu', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that the peer was told about the invalidation
+      expect(eventsReceivedByPeer.length).toBeGreaterThan(0);
+      expect(eventsReceivedByPeer[0]).toMatchObject({
+        query: 'queryGetRecipeTitles',
+        mutation: null,
+        peer: expect.any(String),
+      });
+
+      // prove that the peer dropped the read which was in flight, so that it was not written back to the shared cache
+      expect(await readOfPeer).toEqual(['all', '1']);
+      expect(
+        await peer.queryGetRecipeTitles.execute({ searchFor: 'all' }),
+      ).toEqual(['all', '2']);
+      expect(executionsOfPeer).toEqual(['all', 'all']);
+    });
+    it('should invalidate the cache of a peer which does not share the cache, over unix sockets', async () => {
+      // start two peers, each with their own cache, on a unix socket bus
+      const directory = `${cacheDir}/bus-${uuid()}`;
+      await fs.mkdir(`${directory}/peer`, { recursive: true });
+      await fs.mkdir(`${directory}/self`, { recursive: true });
+      const transportOfPeer =
+        await createRemoteStateCacheBusTransportOnUnixSocket({ directory });
+      const transportOfSelf =
+        await createRemoteStateCacheBusTransportOnUnixSocket({ directory });
+      try {
+        const executionsOfPeer: string[] = [];
+        const peer = getNewPeerContextOperations({
+          cache: createOnDiskCache({
+            directoryToPersistTo: { mounted: { path: `${directory}/peer` } },
+          }),
+          bus: { transport: transportOfPeer, isCacheShared: false },
+          executions: executionsOfPeer,
+        });
+        const self = getNewPeerContextOperations({
+          cache: createOnDiskCache({
+            directoryToPersistTo: { mounted: { path: `${directory}/self` } },
+          }),
+          bus: { transport: transportOfSelf, isCacheShared: false },
+          executions: [],
+        });
+
+        // populate the cache of the peer
+        await peer.queryGetRecipeTitles.execute({ searchFor: 'all' });
+        await peer.queryGetRecipeTitles.execute({ searchFor: 'all' });
+        expect(executionsOfPeer).toEqual(['all']);
+
+        // run a mutation on self, and give the message time to arrive
+        await self.mutationAddRecipe.execute({
+          recipe: {
+            title: 'tofu',
+            description: '',
+            ingredients: [],
+            steps: [],
+          },
+        });
+        await sleep(100);
+
+        // prove that the cache of the peer was invalidated
+        await peer.queryGetRecipeTitles.execute({ searchFor: 'all' });
+        expect(executionsOfPeer).toEqual(['all', 'all']);
+      } finally {
+        await transportOfPeer.close();
+        await transportOfSelf.close();
+      }
+    });
+    it('should drop the lines received over unix sockets which are not messages of the bus, rather than crash', async () => {
+      // start a peer on a unix socket bus, which records the messages it receives
+      const directory = `${cacheDir}/bus-${uuid()}`;
+      const transport = await createRemoteStateCacheBusTransportOnUnixSocket({
+        directory,
+      });
+      try {
+        const received: RemoteStateCacheBusMessage[] = [];
+        transport.subscribe((message) => received.push(message));
+
+        // send it corrupt lines, followed by a valid message
+        const [socketFileName] = await fs.readdir(directory);
+        const message: RemoteStateCacheBusMessage = {
+          origin: 'elsewhere',
+          type: RemoteStateCacheEventType.INVALIDATE,
+          query: 'getRecipes',
+          key: 'getRecipes.all',
+        };
+        await new Promise<void>((resolve) => {
+          const socket = net.createConnection(`${directory}/${socketFileName}`);
+          socket.on('close', () => resolve());
+          socket.end(
+            [
+              '{"origin":"elsewhere","ty', // truncated
+              'not json at all',
+              JSON.stringify({ origin: 'elsewhere', type: 'HIT' }), // not a message of the bus
+              JSON.stringify(message),
+              '',
+            ].join('\n'),
+          );
+        });
+        await sleep(100);
+
+        // prove that only the valid message was received
+        expect(received).toEqual([message]);
+      } finally {
+        await transport.close();
+      }
+    });
+    it('should report a subscriber which throws on a message received over unix sockets to the logger, and still deliver it to the other subscribers', async () => {
+      // start a peer on a unix socket bus, with a subscriber which throws
+      const directory = `${cacheDir}/bus-${uuid()}`;
+      const warnings: string[] = [];
+      const transport = await createRemoteStateCacheBusTransportOnUnixSocket({
+        directory,
+        logger: { warn: (message) => warnings.push(message) },
+      });
+      const transportOfSender =
+        await createRemoteStateCacheBusTransportOnUnixSocket({ directory });
+      try {
+        const received: RemoteStateCacheBusMessage[] = [];
+        transport.subscribe(() => {
+          throw new Error('could not handle');
+        });
+        transport.subscribe(async () => {
+          throw new Error('could not handle, async');
+        });
+        transport.subscribe((message) => received.push(message));
+
+        // send it a message
+        const message: RemoteStateCacheBusMessage = {
+          origin: 'elsewhere',
+          type: RemoteStateCacheEventType.INVALIDATE,
+          query: 'getRecipes',
+          key: 'getRecipes.all',
+        };
+        await transportOfSender.publish(message);
+        await sleep(100);
+
+        // prove that the other subscriber still received it, and both failures were reported
+        expect(received).toEqual([message]);
+        expect(warnings).toHaveLength(2);
+      } finally {
+        await transport.close();
+        await transportOfSender.close();
+      }
+    });
+  });
+  describe('two-tier cache', () => {
+    it('should serve hot reads from the local tier, invalidating both tiers by trigger and the local tiers of peers over the bus', async () => {
+      // define a shared remote cache, which counts its reads
+      const remoteCache = createCache();
+      let remoteReads = 0;
+      const remote: RemoteStateCache = {
+        get: async (key) => {
+          remoteReads += 1;
+          return remoteCache.get(key);
+        },
+        set: (key, value, options) => remoteCache.set(key, value, options),
+        keys: () => remoteCache.keys(),
+      };
+
+      // start two peers, each with their own local tier in front of the shared remote tier
+      const transport = createRemoteStateCacheBusTransportInMemory();
+      const database: string[] = ['steak'];
+      const getNewPeer = () => {
+        const {
+          withRemoteStateQueryCaching,
+          withRemoteStateMutationRegistration,
+        } = createRemoteStateCachingContext({
+          cache: createRemoteStateCacheTwoTier({
+            remote,
+            local: { secondsUntilExpiration: 60, maxEntries: 10 },
+          }),
+          bus: { transport },
+        });
+        const queryGetRecipeTitles = withRemoteStateQueryCaching(
+          async (_: { searchFor: string }): Promise<string[]> => [...database],
+          { name: 'queryGetRecipeTitles' },
+        );
+        const mutationAddRecipe = withRemoteStateMutationRegistration(
+          async ({ recipe }: { recipe: Recipe }) => {
+            database.push(recipe.title);
+            return recipe;
+          },
+          { name: 'mutationAddRecipe' },
+        );
+        queryGetRecipeTitles.addTrigger({
+          invalidatedBy: {
+            mutation: mutationAddRecipe,
+            phases: [MutationExecutionPhase.AFTER_RESOLVE],
+            affects: () => ({ inputs: [[{ searchFor: 'all' }]] }),
+          },
+        });
+        return { queryGetRecipeTitles, mutationAddRecipe };
+      };
+      const self = getNewPeer();
+      const peer = getNewPeer();
+
+      // populate the cache, and warm the local tier of the peer
+      await self.queryGetRecipeTitles.execute({ searchFor: 'all' });
+      await peer.queryGetRecipeTitles.execute({ searchFor: 'all' });
+
+      // prove that hot reads are served from the local tier
+      const remoteReadsBefore = remoteReads;
+      await Promise.all(
+        [...Array(10)].map(async () => {
+          await self.queryGetRecipeTitles.execute({ searchFor: 'all' });
+          await peer.queryGetRecipeTitles.execute({ searchFor: 'all' });
+        }),
+      );
+      expect(remoteReads).toEqual(remoteReadsBefore);
+
+      // prove that a mutation invalidates both tiers of self, and the local tier of the peer
+      await self.mutationAddRecipe.execute({
+        recipe: { title: 'tofu', description: '', ingredients: [], steps: [] },
+      });
+      expect(
+        await self.queryGetRecipeTitles.execute({ searchFor: 'all' }),
+      ).toEqual(['steak', 'tofu']);
+      expect(
+        await peer.queryGetRecipeTitles.execute({ searchFor: 'all' }),
+      ).toEqual(['steak', 'tofu']);
+    });
+    it('should keep the indexes in the remote tier only, and never keep an entry locally for longer than it has left remotely', async () => {
+      // define a shared remote cache, and a two-tier cache in front of it
+      const remote = createRemoteStateCacheInMemory();
+      const cache = createRemoteStateCacheTwoTier({
+        remote,
+        local: { secondsUntilExpiration: 60, maxEntries: 10 },
+      });
+      const { withRemoteStateQueryCaching } = createRemoteStateCachingContext({
+        cache,
+      });
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => [
+          searchFor,
+        ],
+        { name: 'queryGetRecipeTitles', secondsUntilExpiration: 1 },
+      );
+
+      // populate the remote tier from another process, and let part of its expiry pass
+      const { withRemoteStateQueryCaching: withRemoteStateQueryCachingOfPeer } =
+        createRemoteStateCachingContext({ cache: remote });
+      await withRemoteStateQueryCachingOfPeer(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => [
+          searchFor,
+        ],
+        { name: 'queryGetRecipeTitles', secondsUntilExpiration: 1 },
+      ).execute({ searchFor: 'all' });
+      await sleep(600);
+
+      // read it through the two-tier cache, which populates the local tier
+      await queryGetRecipeTitles.execute({ searchFor: 'sea' });
+      expect(await queryGetRecipeTitles.execute({ searchFor: 'all' })).toEqual([
+        'all',
+      ]);
+
+      // prove that only the entries, and none of the indexes, take up the slots of the local tier
+      const keysOfLocal = await cache.local.keys();
+      expect(keysOfLocal).toHaveLength(2);
+      keysOfLocal.forEach((key) => expect(key).not.toMatch(/^__/));
+
+      // prove that the entry populated from the remote tier expires locally when it expires remotely
+      await sleep(500);
+      expect(await cache.local.keys()).toHaveLength(1);
+    });
+  });
+  describe('trigger failures', () => {
+    const getNewOperations = ({
+      triggerFailurePolicy,
+    }: {
+      triggerFailurePolicy?: RemoteStateTriggerFailurePolicy;
+    }) => {
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache: createRemoteStateCacheInMemory(),
+        triggerFailurePolicy,
+      });
+      const database: string[] = ['steak'];
+      const apiCalls: string[] = [];
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+          apiCalls.push(`titles:${searchFor}`);
+          return database.filter((title) => title.includes(searchFor));
+        },
+        { name: 'queryGetRecipeTitles' },
+      );
+      const queryGetRecipeCount = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<number> => {
+          apiCalls.push('count');
+          return database.length;
+        },
+        { name: 'queryGetRecipeCount' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => {
+          if (!recipe.title) throw new Error('recipes must have a title');
+          database.push(recipe.title);
+          return recipe;
+        },
+        { name: 'mutationAddRecipe' },
+      );
+      queryGetRecipeTitles.addTrigger({
+        updatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [MutationExecutionPhase.AFTER_RESOLVE],
+          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }),
+          update: () => {
+            throw new Error('the update of this trigger has a bug');
+          },
+        },
+      });
+      queryGetRecipeCount.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [
+            MutationExecutionPhase.AFTER_RESOLVE,
+            MutationExecutionPhase.AFTER_REJECT,
+          ],
+          affects: ({ mutationStatus }) => {
+            if (mutationStatus === MutationExecutionStatus.REJECTED)
+              throw new Error('the affects of this trigger has a bug');
+            return { inputs: [[{ searchFor: 'all' }]] };
+          },
+        },
+      });
+      return {
+        database,
+        apiCalls,
+        queryGetRecipeTitles,
+        queryGetRecipeCount,
+        mutationAddRecipe,
+      };
+    };
+    const recipe: Recipe = {
+      title: 'tofu',
+      description: '',
+      ingredients: [],
+      steps: [],
+    };
+    beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should run every trigger, then throw their failures in a TriggerExecutionError, distinctly from the error of the mutation', async () => {
+      const {
+        database,
+        apiCalls,
+        queryGetRecipeTitles,
+        queryGetRecipeCount,
+        mutationAddRecipe,
+      } = getNewOperations({});
+      await queryGetRecipeTitles.execute({ searchFor: 'o' });
+      await queryGetRecipeCount.execute({ searchFor: 'all' });
+
+      // prove that the failure of a trigger after the mutation resolved is thrown, aggregated with every detail, while the other triggers still ran
+      const error = await mutationAddRecipe
+        .execute({ recipe })
+        .catch((thrown) => thrown);
+      expect(error).toBeInstanceOf(TriggerExecutionError);
+      expect(error.mutation.output).toEqual(recipe); // the write did happen
+      expect(database).toEqual(['steak', 'tofu']);
+      expect(error.failures).toEqual([
+        expect.objectContaining({
+          query: 'queryGetRecipeTitles',
+          mutation: 'mutationAddRecipe',
+          phase: MutationExecutionPhase.AFTER_RESOLVE,
+          type: RemoteStateQueryTriggerType.UPDATE,
+          policy: RemoteStateTriggerFailurePolicy.THROW,
+          error: new Error('the update of this trigger has a bug'),
+        }),
+      ]);
+      expect(await queryGetRecipeCount.execute({ searchFor: 'all' })).toEqual(
+        2,
+      ); // the other trigger still invalidated its entry
+
+      // prove that when the mutation rejects, its own error is thrown, even though a trigger failed too
+      const errorOfMutation = await mutationAddRecipe
+        .execute({ recipe: { ...recipe, title: '' } })
+        .catch((thrown) => thrown);
+      expect(errorOfMutation.message).toEqual('recipes must have a title');
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining('throwing the error of the mutation'),
+        expect.any(TriggerExecutionError),
+      );
+
+      // prove that when a trigger fails before the mutation, the mutation does not run, since the cache could not be prepared for it
+      queryGetRecipeTitles.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [MutationExecutionPhase.BEFORE],
+          affects: () => {
+            throw new Error('the affects of this trigger has a bug');
+          },
+        },
+      });
+      const errorBefore = await mutationAddRecipe
+        .execute({ recipe: { ...recipe, title: 'tempeh' } })
+        .catch((thrown) => thrown);
+      expect(errorBefore).toBeInstanceOf(TriggerExecutionError);
+      expect(errorBefore.failures).toEqual([
+        expect.objectContaining({ phase: MutationExecutionPhase.BEFORE }),
+      ]);
+      expect(database).toEqual(['steak', 'tofu']);
+      expect(apiCalls).toEqual(['titles:o', 'count', 'count']);
+    });
+    it('should log and continue, or invalidate every entry of the query, per the trigger failure policy', async () => {
+      // prove that failures can be logged, without failing the mutation
+      const logged = getNewOperations({
+        triggerFailurePolicy: RemoteStateTriggerFailurePolicy.LOG_AND_CONTINUE,
+      });
+      await logged.queryGetRecipeTitles.execute({ searchFor: 'o' });
+      expect(await logged.mutationAddRecipe.execute({ recipe })).toEqual(
+        recipe,
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining('a remote-state trigger failed'),
+        expect.objectContaining({ query: 'queryGetRecipeTitles' }),
+      );
+      expect(
+        await logged.queryGetRecipeTitles.execute({ searchFor: 'o' }),
+      ).toEqual([]); // the stale value is still served, since the update failed
+
+      // prove that failures can fall back to invalidating every entry of the query
+      const invalidated = getNewOperations({
+        triggerFailurePolicy: RemoteStateTriggerFailurePolicy.INVALIDATE_QUERY,
+      });
+      await invalidated.queryGetRecipeTitles.execute({ searchFor: 'o' });
+      await invalidated.queryGetRecipeTitles.execute({ searchFor: 'st' });
+      expect(await invalidated.mutationAddRecipe.execute({ recipe })).toEqual(
+        recipe,
+      );
+      expect(
+        await invalidated.queryGetRecipeTitles.execute({ searchFor: 'o' }),
+      ).toEqual(['tofu']);
+      expect(
+        await invalidated.queryGetRecipeTitles.execute({ searchFor: 'st' }),
+      ).toEqual(['steak']);
+      expect(invalidated.apiCalls).toEqual([
+        'titles:o',
+        'titles:st',
+        'titles:o',
+        'titles:st',
+      ]);
+    });
+  });
+  describe('seeds', () => {
+    it('should cache the output of a query seeded by a mutation, whether or not an entry was cached, without calling the query', async () => {
+      // define a query to get a recipe by uuid, and a mutation which saves a recipe and returns it
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache: createRemoteStateCacheInMemory(),
+      });
+      const database: Record<string, Recipe> = {};
+      const apiCalls: string[] = [];
+      const queryGetRecipe = withRemoteStateQueryCaching(
+        async ({
+          uuid: uuidToGet,
+        }: {
+          uuid: string;
+        }): Promise<Recipe | null> => {
+          apiCalls.push(uuidToGet);
+          return database[uuidToGet] ?? null;
+        },
+        { name: 'queryGetRecipe', indexInputs: true }, // since its invalidation trigger is added after entries are seeded
+      );
+      const mutationSaveRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }): Promise<Recipe> => {
+          const saved = { ...recipe, uuid: recipe.uuid ?? uuid() };
+          database[saved.uuid] = saved;
+          return saved;
+        },
+        { name: 'mutationSaveRecipe' },
+      );
+      queryGetRecipe.addTrigger({
+        seededBy: {
+          mutation: mutationSaveRecipe,
+          seeds: ({ mutationOutput }) => [
+            {
+              forInput: [{ uuid: mutationOutput.uuid! }],
+              output: mutationOutput,
+            },
+          ],
+        },
+      });
+
+      // seed an entry which was never cached, and prove it is served without calling the query
+      const created = await mutationSaveRecipe.execute({
+        recipe: { title: 'tofu', description: '', ingredients: [], steps: [] },
+      });
+      expect(await queryGetRecipe.execute({ uuid: created.uuid! })).toEqual(
+        created,
+      );
+      expect(apiCalls).toEqual([]);
+
+      // seed over an entry which was cached, and prove the seed replaced it
+      const updated = await mutationSaveRecipe.execute({
+        recipe: { ...created, title: 'crispy tofu' },
+      });
+      expect(await queryGetRecipe.execute({ uuid: created.uuid! })).toEqual(
+        updated,
+      );
+      expect(apiCalls).toEqual([]);
+
+      // prove that the seeded entry is indexed by its input, so triggers can find it
+      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
+        async ({ uuid: uuidToDelete }: { uuid: string }): Promise<void> => {
+          delete database[uuidToDelete];
+        },
+        { name: 'mutationDeleteRecipe' },
+      );
+      queryGetRecipe.addTrigger({
+        invalidatedBy: {
+          mutation: mutationDeleteRecipe,
+          affects: ({ mutationInput }) => ({
+            inputs: ([input]) => input.uuid === mutationInput[0].uuid,
+          }),
+        },
+      });
+      await mutationDeleteRecipe.execute({ uuid: created.uuid! });
+      expect(await queryGetRecipe.execute({ uuid: created.uuid! })).toEqual(
+        null,
+      );
+      expect(apiCalls).toEqual([created.uuid]);
+    });
+  });
+  describe('validation', () => {
+    type RecipeV1 = { title: string };
+    type RecipeV2 = { name: string; servings: number };
+    const isRecipeV2 = (output: unknown): boolean =>
+      typeof (output as RecipeV2).name === 'string' &&
+      typeof (output as RecipeV2).servings === 'number';
+
+    it('should treat a cached output which fails the validator as a miss, invalidating it and reporting it', async () => {
+      // cache an output in the shape from before a deploy
+      const cache = createRemoteStateCacheInMemory();
+      const queryGetRecipeV1 = createRemoteStateCachingContext({
+        cache,
+      }).withRemoteStateQueryCaching(
+        async (_: { uuid: string }): Promise<RecipeV1> => ({ title: 'steak' }),
+        { name: 'queryGetRecipe' },
+      );
+      await queryGetRecipeV1.execute({ uuid: '7' });
+
+      // define the query in the shape from after the deploy, with a validator
+      const validationFailures: string[] = [];
+      const { withRemoteStateQueryCaching, getStats } =
+        createRemoteStateCachingContext({
+          cache,
+          on: {
+            validationFailed: ({ key, error }) =>
+              validationFailures.push(`${key}: ${error.message}`),
+          },
+        });
+      const apiCalls: string[] = [];
+      const queryGetRecipeV2 = withRemoteStateQueryCaching(
+        async ({ uuid: uuidToGet }: { uuid: string }): Promise<RecipeV2> => {
+          apiCalls.push(uuidToGet);
+          return { name: 'steak', servings: 2 };
+        },
+        { name: 'queryGetRecipe', validator: isRecipeV2 },
+      );
+
+      // prove that the output in the old shape is not served, but refetched and replaced
+      expect(await queryGetRecipeV2.execute({ uuid: '7' })).toEqual({
+        name: 'steak',
+        servings: 2,
+      });
+      expect(apiCalls).toEqual(['7']);
+      expect(validationFailures).toHaveLength(1);
+      expect(validationFailures[0]).toContain(
+        'the output did not pass the validator of the query',
+      );
+      expect(getStats().queryGetRecipe).toMatchObject({
+        validationFailures: 1,
+        misses: 1,
+      });
+
+      // prove that the output in the new shape is served from cache
+      expect(await queryGetRecipeV2.execute({ uuid: '7' })).toEqual({
+        name: 'steak',
+        servings: 2,
+      });
+      expect(apiCalls).toEqual(['7']);
+      expect(validationFailures).toHaveLength(1);
+    });
+    it('should invalidate, instead of update, a cached output which fails the validator before an updatedBy trigger updates it', async () => {
+      // cache an output in the shape from before a deploy
+      const cache = createRemoteStateCacheInMemory();
+      await createRemoteStateCachingContext({ cache })
+        .withRemoteStateQueryCaching(
+          async (_: { uuid: string }): Promise<RecipeV1> => ({
+            title: 'steak',
+          }),
+          { name: 'queryGetRecipe' },
+        )
+        .execute({ uuid: '7' });
+
+      // define the query in the shape from after the deploy, with a parse-style schema, and a mutation which updates it
+      const validationFailures: string[] = [];
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache,
+        on: {
+          validationFailed: ({ key, mutation }) =>
+            validationFailures.push(`${mutation?.name}: ${key}`),
+        },
+      });
+      const apiCalls: string[] = [];
+      const queryGetRecipeV2 = withRemoteStateQueryCaching(
+        async ({ uuid: uuidToGet }: { uuid: string }): Promise<RecipeV2> => {
+          apiCalls.push(uuidToGet);
+          return { name: 'steak', servings: 3 };
+        },
+        {
+          name: 'queryGetRecipe',
+          validator: {
+            parse: (output: unknown) => {
+              if (!isRecipeV2(output))
+                throw new Error('expected a recipe in the v2 shape');
+              return output;
+            },
+          },
+        },
+      );
+      const mutationSetServings = withRemoteStateMutationRegistration(
+        async ({ servings }: { uuid: string; servings: number }) => servings,
+        { name: 'mutationSetServings' },
+      );
+      const updatesCalled: RecipeV2[] = [];
+      queryGetRecipeV2.addTrigger({
+        updatedBy: {
+          mutation: mutationSetServings,
+          phases: [MutationExecutionPhase.AFTER_RESOLVE],
+          affects: ({ mutationInput }) => ({
+            inputs: [[{ uuid: mutationInput[0].uuid }]],
+          }),
+          update: async ({
+            from: { cachedQueryOutput },
+            with: { mutationInput },
+          }) => {
+            const cached = await cachedQueryOutput;
+            updatesCalled.push(cached);
+            return { ...cached, servings: mutationInput[0].servings };
+          },
+        },
+      });
+
+      // prove that the update was not called with the output in the old shape, and that it was invalidated instead
+      await mutationSetServings.execute({ uuid: '7', servings: 3 });
+      expect(updatesCalled).toEqual([]);
+      expect(validationFailures).toHaveLength(1);
+      expect(validationFailures[0]).toContain('mutationSetServings: ');
+      expect(await queryGetRecipeV2.execute({ uuid: '7' })).toEqual({
+        name: 'steak',
+        servings: 3,
+      });
+      expect(apiCalls).toEqual(['7']);
+    });
+  });
+  describe('key index', () => {
+    it('should find the keys of each query from its key index, scanning the keys of the cache once only to build the indexes', async () => {
+      // define a cache which counts its scans of keys
+      const inMemoryCache = createRemoteStateCacheInMemory();
+      let scans = 0;
+      const cacheCountingScans: RemoteStateCache = {
+        ...inMemoryCache,
+        keys: () => {
+          scans += 1;
+          return inMemoryCache.keys();
+        },
+      };
+
+      // define two queries which are both invalidated by a mutation, for the inputs they cached
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({ cache: cacheCountingScans });
+      const apiCalls: string[] = [];
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+          apiCalls.push(`recipes:${searchFor}`);
+          return [searchFor];
+        },
+        { name: 'queryGetRecipes' },
+      );
+      const queryGetIngredients = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+          apiCalls.push(`ingredients:${searchFor}`);
+          return [searchFor];
+        },
+        { name: 'queryGetIngredients' },
+      );
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
+      );
+      [queryGetRecipes, queryGetIngredients].forEach((query) =>
+        query.addTrigger({
+          invalidatedBy: {
+            mutation: mutationAddRecipe,
+            phases: [MutationExecutionPhase.AFTER_RESOLVE],
+            affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }),
+          },
+        }),
+      );
+      const recipe = {
+        title: 'tofu',
+        description: '',
+        ingredients: [],
+        steps: [],
+      };
+
+      // prove that the first mutation builds the index of both queries from one scan
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await queryGetIngredients.execute({ searchFor: 'salt' });
+      await mutationAddRecipe.execute({ recipe });
+      expect(scans).toEqual(1);
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await queryGetIngredients.execute({ searchFor: 'salt' });
+      expect(apiCalls.length).toEqual(4); // both were invalidated
+
+      // prove that later mutations find every key from the index, including keys cached after it was built, without scanning again
+      await queryGetRecipes.execute({ searchFor: 'tofu' });
+      await mutationAddRecipe.execute({ recipe });
+      expect(scans).toEqual(1);
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await queryGetRecipes.execute({ searchFor: 'tofu' });
+      await queryGetIngredients.execute({ searchFor: 'salt' });
+      expect(apiCalls.length).toEqual(8); // all three were invalidated
+
+      // prove that the index forgets the keys which were invalidated
+      const cachedQueryKeysSeen: string[][] = [];
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [MutationExecutionPhase.BEFORE],
+          affects: ({ cachedQueryKeys }) => {
+            cachedQueryKeysSeen.push(cachedQueryKeys);
+            return { keys: [] };
+          },
+        },
+      });
+      await mutationAddRecipe.execute({ recipe }); // sees steak and tofu, then invalidates both after
+      await mutationAddRecipe.execute({ recipe }); // sees neither
+      expect(cachedQueryKeysSeen).toEqual([
+        ['steak', 'tofu'].map(
+          (searchFor) =>
+            `queryGetRecipes.${defaultKeySerializationMethod({
+              forInput: [{ searchFor }],
+            })}`,
+        ),
+        [],
+      ]);
+      expect(scans).toEqual(1);
+    });
+    it('should not drop the keys cached concurrently by several processes which share the cache', async () => {
+      // start two contexts over one on-disk cache, as two processes would
+      const directory = `${cacheDir}/${uuid()}`;
+      const apiCalls: string[] = [];
+      const getNewProcess = () => {
+        const {
+          withRemoteStateQueryCaching,
+          withRemoteStateMutationRegistration,
+        } = createRemoteStateCachingContext({
+          cache: createRemoteStateCacheOnDisk({ directory }),
+        });
+        const queryGetRecipes = withRemoteStateQueryCaching(
+          async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+            apiCalls.push(searchFor);
+            return [searchFor];
+          },
+          { name: 'queryGetRecipes' },
+        );
+        const mutationAddRecipe = withRemoteStateMutationRegistration(
+          async (_: { title: string }) => null,
+          { name: 'mutationAddRecipe' },
+        );
+        queryGetRecipes.addTrigger({
+          invalidatedBy: {
+            mutation: mutationAddRecipe,
+            phases: [MutationExecutionPhase.AFTER_RESOLVE],
+            affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }),
+          },
+        });
+        return { queryGetRecipes, mutationAddRecipe };
+      };
+      const processA = getNewProcess();
+      const processB = getNewProcess();
+      await processA.mutationAddRecipe.execute({ title: 'tofu' }); // builds the index, before any key is cached
+
+      // cache twenty misses concurrently, across both processes
+      const searches = Array.from({ length: 20 }, (_, index) => `${index}`);
+      await Promise.all(
+        searches.map((searchFor, index) =>
+          (index % 2 ? processA : processB).queryGetRecipes.execute({
+            searchFor,
+          }),
+        ),
+      );
+      expect(apiCalls).toHaveLength(20);
+
+      // prove that a mutation finds and invalidates every one of them
+      await processA.mutationAddRecipe.execute({ title: 'tofu' });
+      await Promise.all(
+        searches.map((searchFor) =>
+          processB.queryGetRecipes.execute({ searchFor }),
+        ),
+      );
+      expect(apiCalls).toHaveLength(40);
+    });
+    it('should not read the cache once per cached entry on each mutation, to find the keys and inputs of a query', async () => {
+      // define how to count the reads of a mutation, with some number of entries cached
+      const getReadsOfMutation = async ({ entries }: { entries: number }) => {
+        const inMemoryCache = createRemoteStateCacheInMemory();
+        let reads = 0;
+        const {
+          withRemoteStateQueryCaching,
+          withRemoteStateMutationRegistration,
+        } = createRemoteStateCachingContext({
+          cache: {
+            ...inMemoryCache,
+            get: (key) => {
+              reads += 1;
+              return inMemoryCache.get(key);
+            },
+          },
+        });
+        const queryGetRecipes = withRemoteStateQueryCaching(
+          async ({ searchFor }: { searchFor: string }): Promise<string[]> => [
+            searchFor,
+          ],
+          { name: 'queryGetRecipes' },
+        );
+        const mutationAddRecipe = withRemoteStateMutationRegistration(
+          async (_: { title: string }) => null,
+          { name: 'mutationAddRecipe' },
+        );
+        queryGetRecipes.addTrigger({
+          invalidatedBy: {
+            mutation: mutationAddRecipe,
+            phases: [MutationExecutionPhase.AFTER_RESOLVE],
+            affects: ({ mutationInput }) => ({
+              inputs: ([input]) => input.searchFor === mutationInput[0].title,
+            }),
+          },
+        });
+        await mutationAddRecipe.execute({ title: 'tofu' }); // builds the index
+        await Promise.all(
+          Array.from({ length: entries }, (_, index) =>
+            queryGetRecipes.execute({ searchFor: `${index}` }),
+          ),
+        );
+        reads = 0;
+        await mutationAddRecipe.execute({ title: '0' });
+        return reads;
+      };
+
+      // prove that the reads of a mutation do not grow with the entries cached
+      expect(await getReadsOfMutation({ entries: 20 })).toEqual(
+        await getReadsOfMutation({ entries: 5 }),
+      );
+    });
+  });
+  describe('events', () => {
+    it('should emit lifecycle events to the subscribers of the context', async () => {
+      // start the context, tracking the events
+      const events: { type: string; event: RemoteStateCacheKeyEvent }[] = [];
+      const triggersFired: string[] = [];
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache: createCache(),
+        on: {
+          hit: (event) => events.push({ type: 'hit', event }),
+          miss: (event) => events.push({ type: 'miss', event }),
+          set: (event) => events.push({ type: 'set', event }),
+          invalidate: (event) => events.push({ type: 'invalidate', event }),
+          update: (event) => events.push({ type: 'update', event }),
+          triggerFired: (event) =>
+            triggersFired.push([event.query, event.mutation.name].join('<-')),
+        },
+      });
+
+      // define the operations and triggers
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
+      );
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ mutationInput }) => ({
+            inputs: [[{ searchFor: mutationInput[0].recipe.title }]],
+          }),
+        },
+      });
+
+      // execute the query twice, to see a miss+set and then a hit
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      expect(events.map(({ type }) => type)).toEqual(['miss', 'set', 'hit']);
+      expect(events[0]!.event).toMatchObject({
+        query: 'queryGetRecipes',
+        input: [{ searchFor: 'steak' }],
+        mutation: null,
+      });
+      expect(events[0]!.event.key).toMatch(/^queryGetRecipes\./);
+
+      // execute the mutation, to see the trigger fire and the invalidation
+      await mutationAddRecipe.execute({
+        recipe: { title: 'steak', description: '', ingredients: [], steps: [] },
+      });
+      expect(triggersFired).toEqual([
+        'queryGetRecipes<-mutationAddRecipe', // before the mutation
+        'queryGetRecipes<-mutationAddRecipe', // after the mutation
+      ]);
+      const invalidations = events.filter(({ type }) => type === 'invalidate');
+      expect(invalidations.length).toEqual(2);
+      expect(invalidations[1]!.event).toMatchObject({
+        query: 'queryGetRecipes',
+        key: events[0]!.event.key,
+        input: [{ searchFor: 'steak' }],
+        mutation: { name: 'mutationAddRecipe' },
+      });
+
+      // manually update the query, to see the update
+      await queryGetRecipes.update({
+        forInput: [{ searchFor: 'steak' }],
+        toValue: [],
+      });
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'update',
+        event: { query: 'queryGetRecipes', mutation: null },
+      });
+    });
+    it('should report the failures it recovers from to the logger of the context, instead of the console', async () => {
+      // start the context, with a subscriber which throws and a logger which tracks the warnings
+      const warnings: { message: string; metadata: unknown }[] = [];
+      const consoleWarn = jest.spyOn(console, 'warn');
+      const { withRemoteStateQueryCaching } = createRemoteStateCachingContext({
+        cache: createCache(),
+        on: {
+          hit: () => {
+            throw new Error('the hit subscriber has a bug');
+          },
+        },
+        logger: {
+          warn: (message, metadata) => warnings.push({ message, metadata }),
+        },
+      });
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+
+      // execute the query twice, to see a hit
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      expect(await queryGetRecipes.execute({ searchFor: 'steak' })).toEqual([]);
+
+      // prove that the failure of the subscriber was reported to the logger, not the console
+      expect(warnings).toEqual([
+        {
+          message: expect.stringContaining('event subscriber threw an error'),
+          metadata: expect.objectContaining({ type: 'HIT' }),
+        },
+      ]);
+      expect(consoleWarn).not.toHaveBeenCalled();
+      consoleWarn.mockRestore();
+    });
+  });
+  describe('stats', () => {
+    it('should track per-query cache statistics and render them as prometheus text', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+        getStats,
+        getStatsAsPrometheusText,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+
+      // define the operations and triggers
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
+      );
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ mutationInput }) => ({
+            inputs: [[{ searchFor: mutationInput[0].recipe.title }]],
+          }),
+        },
+      });
+      withRemoteStateQueryCaching(
+        async (_: { uuid: string }): Promise<Recipe | null> => null,
+        { name: 'queryGetRecipe' },
+      );
+
+      // execute the query and the mutation
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await mutationAddRecipe.execute({
+        recipe: { title: 'steak', description: '', ingredients: [], steps: [] },
+      });
+
+      // prove that the stats were tracked
+      const stats = getStats();
+      expect(stats.queryGetRecipes).toMatchObject({
+        hits: 1,
+        misses: 1,
+        sets: 1,
+        triggeredInvalidations: 2, // before and after the mutation
+        triggeredUpdates: 0,
+        deserializationFailures: 0,
+      });
+      expect(stats.queryGetRecipes!.latency.count).toEqual(1); // only the miss executed the logic
+      expect(stats.queryGetRecipe).toMatchObject({ hits: 0, misses: 0 }); // reported even before being used
+
+      // prove that the stats render as prometheus text
+      const text = getStatsAsPrometheusText();
+      expect(text).toContain('# TYPE remote_state_cache_hits_total counter');
+      expect(text).toContain(
+        'remote_state_cache_hits_total{query="queryGetRecipes"} 1',
+      );
+      expect(text).toContain(
+        'remote_state_cache_logic_duration_seconds_count{query="queryGetRecipes"} 1',
+      );
+      expect(text).toContain(
+        'remote_state_cache_logic_duration_seconds_bucket{query="queryGetRecipes",le="+Inf"} 1',
+      );
+    });
+    it('should not count the executions which bypass the cached value, e.g., refetches, as hits nor misses', async () => {
+      // define a query whose entries are refetched when a mutation invalidates them
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+        getStats,
+      } = createRemoteStateCachingContext({
+        cache: createRemoteStateCacheInMemory(),
+      });
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async (_: { title: string }) => null,
+        { name: 'mutationAddRecipe' },
+      );
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          phases: [MutationExecutionPhase.AFTER_RESOLVE],
+          refetch: { mode: RemoteStateQueryRefetchMode.AWAITED },
+          affects: ({ mutationInput }) => ({
+            inputs: [[{ searchFor: mutationInput[0].title }]],
+          }),
+        },
+      });
+
+      // prove that the refetch was counted as a set, but not as a hit nor a miss
+      await queryGetRecipes.execute({ searchFor: 'steak' });
+      await mutationAddRecipe.execute({ title: 'steak' });
+      expect(getStats().queryGetRecipes).toMatchObject({
+        hits: 0,
+        misses: 1,
+        sets: 2,
+      });
+    });
+    it('should track deserialization failures', async () => {
+      // start the context, with a deserializer which fails
+      const { withRemoteStateQueryCaching, getStats } =
+        createRemoteStateCachingContext({
+          cache: createCache(),
+          deserialize: {
+            value: () => {
+              throw new Error('could not deserialize');
+            },
+          },
+        });
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+
+      // prove that the failure is tracked
+      await expect(
+        queryGetRecipes.execute({ searchFor: 'steak' }),
+      ).rejects.toThrow('could not deserialize');
+      expect(getStats().queryGetRecipes!.deserializationFailures).toEqual(1);
+    });
+  });
+  describe('registry', () => {
+    it('should expose the queries, mutations, and triggers registered to the context', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+        registry,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+
+      // define the mutations
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
+      );
+      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
+        async (_: { recipeUuid: string }) => {},
+        { name: 'mutationDeleteRecipe' },
+      );
+
+      // define the query
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }),
+        },
+      });
+      queryGetRecipes.addTrigger({
+        updatedBy: {
+          mutation: mutationDeleteRecipe,
+          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }),
+          update: ({ from: { cachedQueryOutput } }) => cachedQueryOutput,
+        },
+      });
+
+      // prove that the queries are exposed with their triggers
+      const queries = registry.getQueries();
+      expect(queries.length).toEqual(1);
+      expect(queries[0]!.name).toEqual('queryGetRecipes');
+      expect(queries[0]!.triggers.length).toEqual(2);
+
+      // prove that the mutations are exposed with the triggers that point at them
+      const mutations = registry.getMutations();
+      expect(mutations.map((mutation) => mutation.name)).toEqual([
+        'mutationAddRecipe',
+        'mutationDeleteRecipe',
+      ]);
+      expect(mutations[0]!.options).toEqual({ name: 'mutationAddRecipe' });
+      expect(mutations[0]!.triggers).toEqual([
+        {
+          type: RemoteStateQueryTriggerType.INVALIDATION,
+          query: 'queryGetRecipes',
+          mutation: 'mutationAddRecipe',
+        },
+      ]);
+
+      // prove that the triggers can be filtered
+      expect(
+        registry.getTriggers({ mutation: 'mutationDeleteRecipe' }),
+      ).toEqual([
+        {
+          type: RemoteStateQueryTriggerType.UPDATE,
+          query: 'queryGetRecipes',
+          mutation: 'mutationDeleteRecipe',
+        },
+      ]);
+    });
+    it('should describe the trigger graph as json, mermaid, and dot', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+        describe: describeContext,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+
+      // define the operations and triggers
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutationAddRecipe' },
+      );
+      const mutationDeleteRecipe = withRemoteStateMutationRegistration(
+        async (_: { recipeUuid: string }) => {},
+        { name: 'mutationDeleteRecipe' },
+      );
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGetRecipes' },
+      );
+      queryGetRecipes.addTrigger({
+        invalidatedBy: {
+          mutation: mutationAddRecipe,
+          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }),
+        },
+      });
+      queryGetRecipes.addTrigger({
+        updatedBy: {
+          mutation: mutationDeleteRecipe,
+          affects: ({ cachedQueryKeys }) => ({ keys: cachedQueryKeys }),
+          update: ({ from: { cachedQueryOutput } }) => cachedQueryOutput,
+        },
+      });
+
+      // prove that the json is a stable, diffable document
+      expect(JSON.parse(describeContext())).toEqual({
+        queries: ['queryGetRecipes'],
+        mutations: ['mutationAddRecipe', 'mutationDeleteRecipe'],
+        edges: [
+          {
+            mutation: 'mutationAddRecipe',
+            query: 'queryGetRecipes',
+            type: RemoteStateQueryTriggerType.INVALIDATION,
+          },
+          {
+            mutation: 'mutationDeleteRecipe',
+            query: 'queryGetRecipes',
+            type: RemoteStateQueryTriggerType.UPDATE,
+          },
+        ],
+      });
+
+      // prove that the mermaid flowchart labels each edge
+      const mermaid = describeContext({
+        format: RemoteStateCacheContextGraphFormat.MERMAID,
+      });
+      expect(mermaid).toContain(
+        'mutation_mutationAddRecipe -->|invalidates| query_queryGetRecipes',
+      );
+      expect(mermaid).toContain(
+        'mutation_mutationDeleteRecipe -->|updates| query_queryGetRecipes',
+      );
+
+      // prove that the dot file labels each edge
+      const dot = describeContext({
+        format: RemoteStateCacheContextGraphFormat.DOT,
+      });
+      expect(dot).toContain(
+        'mutation_mutationAddRecipe -> query_queryGetRecipes [label="invalidates"];',
+      );
+      expect(dot).toContain(
+        'mutation_mutationDeleteRecipe -> query_queryGetRecipes [label="updates", style=dashed];',
+      );
+    });
+    it('should describe operations whose names differ only by punctuation as distinct nodes, with escaped labels and one edge per trigger type', async () => {
+      // start the context
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+        describe: describeContext,
+      } = createRemoteStateCachingContext({ cache: createCache() });
+
+      // define the operations and triggers
+      const mutationAddRecipe = withRemoteStateMutationRegistration(
+        async ({ recipe }: { recipe: Recipe }) => recipe,
+        { name: 'mutation "add" recipe' },
+      );
+      const queryGetRecipesDashed = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGet-recipes' },
+      );
+      const queryGetRecipesUnderscored = withRemoteStateQueryCaching(
+        async (_: { searchFor: string }): Promise<Recipe[]> => [],
+        { name: 'queryGet_recipes' },
+      );
+      [queryGetRecipesDashed, queryGetRecipesUnderscored].forEach((query) =>
+        [['a'], ['b']].forEach(([searchFor]) =>
+          query.addTrigger({
+            invalidatedBy: {
+              mutation: mutationAddRecipe,
+              affects: () => ({ inputs: [[{ searchFor: searchFor! }]] }),
+            },
+          }),
+        ),
+      );
+
+      // prove that each edge is listed once, even though two triggers connect it
+      expect(JSON.parse(describeContext()).edges).toEqual([
+        {
+          mutation: 'mutation "add" recipe',
+          query: 'queryGet-recipes',
+          type: RemoteStateQueryTriggerType.INVALIDATION,
+        },
+        {
+          mutation: 'mutation "add" recipe',
+          query: 'queryGet_recipes',
+          type: RemoteStateQueryTriggerType.INVALIDATION,
+        },
+      ]);
+
+      // prove that the mermaid flowchart gives each query its own node, and escapes the labels
+      const mermaid = describeContext({
+        format: RemoteStateCacheContextGraphFormat.MERMAID,
+      });
+      const nodeIds = mermaid
+        .split('\n')
+        .filter((line) => line.includes('[("'))
+        .map((line) => line.trim().split('[')[0]);
+      expect(nodeIds).toHaveLength(2);
+      expect(new Set(nodeIds).size).toEqual(2);
+      expect(mermaid).toContain('[/"mutation #34;add#34; recipe"/]');
+      expect(mermaid.match(/-->\|invalidates\|/g)).toHaveLength(2);
+    });
+    it('should throw an error if two mutations are registered with the same name', async () => {
+      // start the context
+      const { withRemoteStateMutationRegistration } =
+        createRemoteStateCachingContext({ cache: createCache() });
+
+      // register the mutation once
+      withRemoteStateMutationRegistration(async () => {}, {
+        name: 'mutationAddRecipe',
+      });
+
+      // prove that registering it again throws
+      expect(() =>
+        withRemoteStateMutationRegistration(async () => {}, {
+          name: 'mutationAddRecipe',
+        }),
+      ).toThrow('a mutation with this name was already registered');
+    });
+  });
+  describe('namespaces and versions', () => {
+    it('should isolate the keys, indexes, and tags of each namespace which shares a cache', async () => {
+      // start a context per stage, over a shared cache
+      const cache = createRemoteStateCacheInMemory();
+      const apiCalls: string[] = [];
+      const getNewStage = (stage: string) => {
+        const {
+          withRemoteStateQueryCaching,
+          withRemoteStateMutationRegistration,
+        } = createRemoteStateCachingContext({
+          cache,
+          namespace: ['recipes-api', stage],
+        });
+        const queryGetRecipeTitles = withRemoteStateQueryCaching(
+          async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+            apiCalls.push(`${stage}:${searchFor}`);
+            return [searchFor];
+          },
+          { name: 'queryGetRecipeTitles', tags: () => ['recipes'] },
+        );
+        const mutationAddRecipe = withRemoteStateMutationRegistration(
+          async (_: { title: string }) => null,
+          { name: 'mutationAddRecipe', touches: () => ['recipes'] },
+        );
+        return { queryGetRecipeTitles, mutationAddRecipe };
+      };
+      const prod = getNewStage('prod');
+      const staging = getNewStage('staging');
+
+      // prove that each stage caches its own output
+      await prod.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      await staging.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      await prod.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      await staging.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      expect(apiCalls).toEqual(['prod:steak', 'staging:steak']);
+      expect(
+        (await cache.keys()).filter((key) =>
+          key.startsWith('recipes-api.prod.queryGetRecipeTitles.'),
+        ),
+      ).toHaveLength(1);
+
+      // prove that a mutation in one stage does not invalidate the other by tag
+      await staging.mutationAddRecipe.execute({ title: 'tofu' });
+      await prod.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      await staging.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      expect(apiCalls).toEqual([
+        'prod:steak',
+        'staging:steak',
+        'staging:steak',
+      ]);
+    });
+    it('should namespace keys by version, and list and purge the keys of versions no longer registered', async () => {
+      // define how to start a context with a version of the query, over a shared cache
+      const cache = createRemoteStateCacheInMemory();
+      const apiCalls: string[] = [];
+      const getNewContext = (version: number) => {
+        const context = createRemoteStateCachingContext({
+          cache,
+          namespace: ['recipes-api'],
+        });
+        const queryGetRecipeTitles = context.withRemoteStateQueryCaching(
+          async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+            apiCalls.push(`v${version}:${searchFor}`);
+            return [searchFor];
+          },
+          { name: 'queryGetRecipeTitles', version },
+        );
+        return { ...context, queryGetRecipeTitles };
+      };
+
+      // cache outputs with the first version
+      const v1 = getNewContext(1);
+      await v1.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      await v1.queryGetRecipeTitles.execute({ searchFor: 'tofu' });
+
+      // prove that the next version does not read them
+      const v2 = getNewContext(2);
+      await v2.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      expect(apiCalls).toEqual(['v1:steak', 'v1:tofu', 'v2:steak']);
+
+      // prove that the keys of the first version are listed as unregistered by the context of the next one
+      const keysOfV1 = await v2.getKeysOfUnregisteredVersions();
+      expect(keysOfV1).toHaveLength(2);
+      keysOfV1.forEach((key) =>
+        expect(key.startsWith('recipes-api.queryGetRecipeTitles@1.')).toEqual(
+          true,
+        ),
+      );
+
+      // prove that they can be purged, along with their indexes, without affecting the registered version
+      const { keys: keysPurged } = await v2.purgeKeysOfUnregisteredVersions();
+      expect(keysPurged.sort()).toEqual(keysOfV1.sort());
+      const keysRemaining = await cache.keys();
+      expect(
+        keysRemaining.filter((key) => key.includes('queryGetRecipeTitles@1')),
+      ).toEqual([]); // neither the keys nor their indexes remain
+      expect(
+        keysRemaining.filter((key) => key.includes('queryGetRecipeTitles@2')),
+      ).not.toEqual([]);
+      expect(await v2.getKeysOfUnregisteredVersions()).toEqual([]);
+      await v2.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      expect(apiCalls).toEqual(['v1:steak', 'v1:tofu', 'v2:steak']);
+    });
+    it('should refuse to purge the keys of queries which are not registered, in a context without a namespace', async () => {
+      // start a context without a namespace, over a cache shared with another app
+      const cache = createRemoteStateCacheInMemory();
+      await cache.set('queryGetIngredients.searchFor_salt', '["salt"]'); // cached by another app
+      const { withRemoteStateQueryCaching, purgeKeysOfUnregisteredVersions } =
+        createRemoteStateCachingContext({ cache });
+      const queryGetRecipeTitles = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => [
+          searchFor,
+        ],
+        { name: 'queryGetRecipeTitles' },
+      );
+      await queryGetRecipeTitles.execute({ searchFor: 'steak' });
+
+      // prove that it refuses to purge them, rather than purge the keys of the other app
+      const error = await purgeKeysOfUnregisteredVersions({
+        includeQueriesNotRegistered: true,
+      }).catch((thrown) => thrown);
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.message).toContain('this context has no namespace');
+      expect(await cache.get('queryGetIngredients.searchFor_salt')).toEqual(
+        '["salt"]',
+      );
+    });
+  });
+  describe('snapshots', () => {
+    const getNewContext = ({
+      cache,
+      namespace,
+      version,
+    }: {
+      cache: RemoteStateCache;
+      namespace: string[];
+      version?: number;
+    }) => {
+      const apiCalls: string[] = [];
+      const context = createRemoteStateCachingContext({
+        cache,
+        namespace,
+        valueCodec: createRemoteStateCacheValueCodecTyped(),
+      });
+      const queryGetRecipe = context.withRemoteStateQueryCaching(
+        async ({
+          title,
+        }: {
+          title: string;
+        }): Promise<{ title: string; savedAt: Date }> => {
+          apiCalls.push(title);
+          return { title, savedAt: new Date('2020-01-01T00:00:00.000Z') };
+        },
+        {
+          name: 'queryGetRecipe',
+          secondsUntilExpiration: 60,
+          version,
+          indexInputs: true, // so that its entries can be dehydrated
+          validator: (output) =>
+            typeof (output as { title: unknown }).title === 'string',
+        },
+      );
+      const queryGetRecipeTitles = context.withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<string[]> => {
+          apiCalls.push(searchFor);
+          return [searchFor];
+        },
+        { name: 'queryGetRecipeTitles', indexInputs: true },
+      );
+      return { ...context, queryGetRecipe, queryGetRecipeTitles, apiCalls };
+    };
+    it('should dehydrate the cached entries of the selected queries, and hydrate them into the cache of another context', async () => {
+      // cache some entries on the server
+      const server = getNewContext({
+        cache: createRemoteStateCacheInMemory(),
+        namespace: ['server'],
+      });
+      await server.queryGetRecipe.execute({ title: 'steak' });
+      await server.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+
+      // dehydrate only the selected query, into plain json
+      const snapshot = JSON.parse(
+        JSON.stringify(await server.dehydrate({ queries: ['queryGetRecipe'] })),
+      );
+      expect(snapshot.entries).toHaveLength(1);
+      expect(snapshot.entries[0]).toMatchObject({
+        query: 'queryGetRecipe',
+        input: [{ title: 'steak' }],
+      });
+      expect(snapshot.entries[0].expiresAt).toBeGreaterThan(Date.now());
+      expect(snapshot.entries[0].expiresAt).toBeLessThanOrEqual(
+        Date.now() + 60 * 1000,
+      );
+
+      // hydrate it into a client with a different namespace
+      const client = getNewContext({
+        cache: createRemoteStateCacheInMemory(),
+        namespace: ['client'],
+      });
+      const { keys } = await client.hydrate({ snapshot });
+      expect(keys).toHaveLength(1);
+      expect(keys[0]!.startsWith('client.queryGetRecipe.')).toEqual(true);
+
+      // prove that the client reads the hydrated entry without calling the api, with its types intact
+      const recipe = await client.queryGetRecipe.execute({ title: 'steak' });
+      expect(recipe.savedAt).toBeInstanceOf(Date);
+      expect(client.apiCalls).toEqual([]);
+
+      // prove that the hydrated entry can be dehydrated again, with the same expiration, give or take the time it took to hydrate
+      const { entries } = await client.dehydrate();
+      expect(entries).toHaveLength(1);
+      expect(
+        Math.abs(entries[0]!.expiresAt! - snapshot.entries[0]!.expiresAt!),
+      ).toBeLessThan(1000);
+    });
+    it('should hydrate the entries whose inputs include the types json does not support, under the keys they are read by', async () => {
+      // define a query whose input includes a date, on a server and a client
+      const getNewContextWithQueryOfDate = (namespace: string[]) => {
+        const context = getNewContext({
+          cache: createRemoteStateCacheInMemory(),
+          namespace,
+        });
+        const queryGetRecipesSince = context.withRemoteStateQueryCaching(
+          async ({ since }: { since: Date }): Promise<string[]> => {
+            context.apiCalls.push(since.toISOString());
+            return [];
+          },
+          { name: 'queryGetRecipesSince', indexInputs: true },
+        );
+        return { ...context, queryGetRecipesSince };
+      };
+      const server = getNewContextWithQueryOfDate(['server']);
+      const client = getNewContextWithQueryOfDate(['client']);
+
+      // prove that the client reads the entry the server dehydrated, without calling the api
+      const since = new Date('2020-01-01T00:00:00.000Z');
+      await server.queryGetRecipesSince.execute({ since });
+      const snapshot = JSON.parse(
+        JSON.stringify(
+          await server.dehydrate({ queries: ['queryGetRecipesSince'] }),
+        ),
+      );
+      await client.hydrate({ snapshot });
+      await client.queryGetRecipesSince.execute({ since });
+      expect(client.apiCalls).toEqual([]);
+    });
+    it('should reject a snapshot which does not match the registered queries, without hydrating any of it', async () => {
+      const server = getNewContext({
+        cache: createRemoteStateCacheInMemory(),
+        namespace: [],
+        version: 1,
+      });
+      await server.queryGetRecipe.execute({ title: 'steak' });
+      await server.queryGetRecipeTitles.execute({ searchFor: 'steak' });
+      const snapshot = await server.dehydrate();
+      expect(snapshot.entries).toHaveLength(2);
+
+      // prove that a snapshot of another version of a query is rejected whole
+      const cacheOfNextVersion = createRemoteStateCacheInMemory();
+      const nextVersion = getNewContext({
+        cache: cacheOfNextVersion,
+        namespace: [],
+        version: 2,
+      });
+      await expect(nextVersion.hydrate({ snapshot })).rejects.toThrow(
+        'of a different version of the query',
+      );
+      expect(await cacheOfNextVersion.keys()).toEqual([]);
+
+      // prove that a snapshot of a query which is not registered, or whose value fails the validator, is rejected
+      await expect(
+        nextVersion.hydrate({
+          snapshot: {
+            entries: [{ ...snapshot.entries[0]!, query: 'queryGetChef' }],
+          },
+        }),
+      ).rejects.toThrow('of a query which is not registered');
+      const sameVersion = getNewContext({
+        cache: createRemoteStateCacheInMemory(),
+        namespace: [],
+        version: 1,
+      });
+      await expect(
+        sameVersion.hydrate({
+          snapshot: {
+            entries: snapshot.entries.map((entry) =>
+              entry.query === 'queryGetRecipe'
+                ? { ...entry, value: JSON.stringify({ title: 7 }) }
+                : entry,
+            ),
+          },
+        }),
+      ).rejects.toThrow('does not pass the validator of the query');
+
+      // prove that entries which expired since they were dehydrated are skipped
+      const { keys } = await sameVersion.hydrate({
+        snapshot: {
+          entries: snapshot.entries.map((entry) => ({
+            ...entry,
+            expiresAt: Date.now() - 1000,
+          })),
+        },
+      });
+      expect(keys).toEqual([]);
+    });
+  });
+  describe('key serialization', () => {
+    it('should serialize keys canonically, reading the entries cached under legacy keys during rollout', async () => {
+      // define how to start a context, in a given key serialization mode, over a shared cache
+      const cache = createRemoteStateCacheInMemory();
+      const apiCalls: string[] = [];
+      const getNewQuery = ({
+        keySerializationMode,
+      }: {
+        keySerializationMode: RemoteStateCacheKeySerializationMode;
+      }) =>
+        createRemoteStateCachingContext({
+          cache,
+          keySerializationMode,
+        }).withRemoteStateQueryCaching(
+          async ({
+            searchFor,
+          }: {
+            searchFor: string;
+            limit: number;
+          }): Promise<string[]> => {
+            apiCalls.push(searchFor);
+            return [searchFor];
+          },
+          { name: 'queryGetRecipeTitles' },
+        );
+
+      // cache an output under the legacy key
+      const queryLegacy = getNewQuery({
+        keySerializationMode: RemoteStateCacheKeySerializationMode.LEGACY,
+      });
+      await queryLegacy.execute({ searchFor: 'steak', limit: 3 });
+      expect(apiCalls).toEqual(['steak']);
+      const legacyKey = `queryGetRecipeTitles.${legacyKeySerializationMethod({
+        forInput: [{ searchFor: 'steak', limit: 3 }],
+      })}`;
+      expect(await cache.keys()).toContain(legacyKey);
+
+      // prove that it is read, and moved to the canonical key, by a context which reads legacy keys
+      const queryCanonical = getNewQuery({
+        keySerializationMode:
+          RemoteStateCacheKeySerializationMode.CANONICAL_WITH_LEGACY_READS,
+      });
+      expect(
+        await queryCanonical.execute({ searchFor: 'steak', limit: 3 }),
+      ).toEqual(['steak']);
+      expect(apiCalls).toEqual(['steak']);
+      expect(await cache.keys()).not.toContain(legacyKey);
+      expect(await cache.keys()).toContain(
+        `queryGetRecipeTitles.${defaultKeySerializationMethod({
+          forInput: [{ searchFor: 'steak', limit: 3 }],
+        })}`,
+      );
+
+      // prove that equal inputs with keys in a different order share the canonical key
+      expect(
+        await queryCanonical.execute({ limit: 3, searchFor: 'steak' }),
+      ).toEqual(['steak']);
+      expect(apiCalls).toEqual(['steak']);
+    });
+    it('should not read the entries cached under legacy keys once their inputs were invalidated, nor those which fail the validator', async () => {
+      // define how to start a context, in a given key serialization mode, over a shared cache
+      const cache = createRemoteStateCacheInMemory();
+      const apiCalls: string[] = [];
+      const getNewContext = ({
+        keySerializationMode,
+      }: {
+        keySerializationMode: RemoteStateCacheKeySerializationMode;
+      }) => {
+        const {
+          withRemoteStateQueryCaching,
+          withRemoteStateMutationRegistration,
+        } = createRemoteStateCachingContext({ cache, keySerializationMode });
+        const queryGetRecipeTitles = withRemoteStateQueryCaching(
+          async ({
+            searchFor,
+          }: {
+            searchFor: string;
+            limit: number;
+          }): Promise<string[]> => {
+            apiCalls.push(searchFor);
+            return [searchFor];
+          },
+          {
+            name: 'queryGetRecipeTitles',
+            validator: (output) => Array.isArray(output),
+          },
+        );
+        const mutationAddRecipe = withRemoteStateMutationRegistration(
+          async (_: { title: string }) => null,
+          { name: 'mutationAddRecipe' },
+        );
+        queryGetRecipeTitles.addTrigger({
+          invalidatedBy: {
+            mutation: mutationAddRecipe,
+            phases: [MutationExecutionPhase.AFTER_RESOLVE],
+            affects: ({ mutationInput }) => ({
+              inputs: [[{ searchFor: mutationInput[0].title, limit: 3 }]],
+            }),
+          },
+        });
+        return { queryGetRecipeTitles, mutationAddRecipe };
+      };
+
+      // cache outputs under the legacy keys
+      const legacy = getNewContext({
+        keySerializationMode: RemoteStateCacheKeySerializationMode.LEGACY,
+      });
+      await legacy.queryGetRecipeTitles.execute({
+        searchFor: 'steak',
+        limit: 3,
+      });
+      await legacy.queryGetRecipeTitles.execute({
+        searchFor: 'tofu',
+        limit: 3,
+      });
+      expect(apiCalls).toEqual(['steak', 'tofu']);
+
+      // prove that an input invalidated before its legacy entry was read is not served from it
+      const canonical = getNewContext({
+        keySerializationMode:
+          RemoteStateCacheKeySerializationMode.CANONICAL_WITH_LEGACY_READS,
+      });
+      await canonical.mutationAddRecipe.execute({ title: 'steak' });
+      await canonical.queryGetRecipeTitles.execute({
+        searchFor: 'steak',
+        limit: 3,
+      });
+      expect(apiCalls).toEqual(['steak', 'tofu', 'steak']);
+
+      // prove that a legacy entry which fails the validator is not served
+      await cache.set(
+        `queryGetRecipeTitles.${legacyKeySerializationMethod({
+          forInput: [{ searchFor: 'tofu', limit: 3 }],
+        })}`,
+        JSON.stringify({ title: 'tofu' }),
+      );
+      expect(
+        await canonical.queryGetRecipeTitles.execute({
+          searchFor: 'tofu',
+          limit: 3,
+        }),
+      ).toEqual(['tofu']);
+      expect(apiCalls).toEqual(['steak', 'tofu', 'steak', 'tofu']);
+    });
+  });
+  describe('(de)serialization', () => {
+    it('should treat a cached output which fails to deserialize as a miss, invalidating it and executing the query instead', async () => {
+      // cache an output in the format from before a deploy
+      const cache = createRemoteStateCacheInMemory();
+      await createRemoteStateCachingContext({ cache })
+        .withRemoteStateQueryCaching(
+          async (_: { uuid: string }): Promise<string> => 'steak',
+          { name: 'queryGetRecipeTitle' },
+        )
+        .execute({ uuid: '7' });
+
+      // define the query with the format from after the deploy, whose deserializer rejects the old one
+      const warnings: string[] = [];
+      const { withRemoteStateQueryCaching, getStats } =
+        createRemoteStateCachingContext({
+          cache,
+          serialize: { value: (output) => `v2:${JSON.stringify(output)}` },
+          deserialize: {
+            value: (cached) => {
+              if (!cached.startsWith('v2:'))
+                throw new Error('could not deserialize');
+              return JSON.parse(cached.slice('v2:'.length));
+            },
+          },
+          logger: { warn: (message) => warnings.push(message) },
+        });
+      const apiCalls: string[] = [];
+      const queryGetRecipeTitle = withRemoteStateQueryCaching(
+        async ({ uuid: uuidToGet }: { uuid: string }): Promise<string> => {
+          apiCalls.push(uuidToGet);
+          return 'tofu';
+        },
+        { name: 'queryGetRecipeTitle' },
+      );
+
+      // prove that the output in the old format is not thrown, but refetched and replaced
+      expect(await queryGetRecipeTitle.execute({ uuid: '7' })).toEqual('tofu');
+      expect(apiCalls).toEqual(['7']);
+      expect(warnings).toHaveLength(1);
+      expect(getStats().queryGetRecipeTitle).toMatchObject({
+        deserializationFailures: 1,
+        misses: 1,
+      });
+
+      // prove that the output in the new format is served from cache
+      expect(await queryGetRecipeTitle.execute({ uuid: '7' })).toEqual('tofu');
+      expect(apiCalls).toEqual(['7']);
+      expect(getStats().queryGetRecipeTitle).toMatchObject({
+        deserializationFailures: 1,
+        hits: 1,
+      });
+    });
+    it('should allow user to specify default context level serialization and deserialization', async () => {
+      // start the context
+      const { withRemoteStateQueryCaching } = createRemoteStateCachingContext({
+        cache: createCache(),
+        serialize: {
+          value: (output) => JSON.stringify(output),
+        },
+        deserialize: {
+          value: (cached) => JSON.parse(cached),
+        },
+      });
+
+      // define a query that we'll be caching
+      const apiCalls = [];
+      const queryGetRecipes = withRemoteStateQueryCaching(
+        async ({ searchFor }: { searchFor: string }): Promise<Recipe[]> => {
           apiCalls.push(searchFor);
           return [
             {
@@ -801,5 +3633,87 @@ describe('createRemoteStateCachingContext', () => {
       expect(result6.length).toEqual(2); // should have 2 recipes now
       expect(result6[1]).toMatchObject({ title: 'new smoothie' }); // the second should be the one we explicitly added
     });
+    it('should round-trip typed values with a typed value codec, so hits and update triggers see the same types as misses', async () => {
+      // start the context with a typed value codec
+      const {
+        withRemoteStateQueryCaching,
+        withRemoteStateMutationRegistration,
+      } = createRemoteStateCachingContext({
+        cache: createRemoteStateCacheInMemory(),
+        valueCodec: createRemoteStateCacheValueCodecTyped(),
+      });
+
+      // define a query which returns dates, and a mutation which updates it
+      const apiCalls: string[] = [];
+      const queryGetRecipeCookedAt = withRemoteStateQueryCaching(
+        async ({ title }: { title: string }): Promise<{ cookedAt: Date[] }> => {
+          apiCalls.push(title);
+          return { cookedAt: [new Date('2020-01-01T00:00:00.000Z')] };
+        },
+        { name: 'queryGetRecipeCookedAt' },
+      );
+      const mutationCookRecipe = withRemoteStateMutationRegistration(
+        async ({ title }: { title: string; at: Date }) => ({ title }),
+        { name: 'mutationCookRecipe' },
+      );
+      const cachedTypesSeenByUpdate: string[] = [];
+      queryGetRecipeCookedAt.addTrigger({
+        updatedBy: {
+          mutation: mutationCookRecipe,
+          phases: [MutationExecutionPhase.AFTER_RESOLVE],
+          affects: ({ mutationInput }) => ({
+            inputs: [[{ title: mutationInput[0].title }]],
+          }),
+          update: ({ from: { cachedQueryOutput }, with: { mutationInput } }) =>
+            cachedQueryOutput.then((cached) => {
+              cachedTypesSeenByUpdate.push(
+                cached.cookedAt[0]!.constructor.name,
+              );
+              return {
+                cookedAt: [...cached.cookedAt, mutationInput[0].at],
+              };
+            }),
+        },
+      });
+
+      // prove that a hit returns dates, just like the miss did
+      const miss = await queryGetRecipeCookedAt.execute({ title: 'steak' });
+      const hit = await queryGetRecipeCookedAt.execute({ title: 'steak' });
+      expect(hit).toEqual(miss);
+      expect(hit.cookedAt[0]).toBeInstanceOf(Date);
+      expect(apiCalls).toEqual(['steak']);
+
+      // prove that an update trigger sees dates too
+      await mutationCookRecipe.execute({
+        title: 'steak',
+        at: new Date('2020-01-02T00:00:00.000Z'),
+      });
+      expect(cachedTypesSeenByUpdate).toEqual(['Date']);
+      const updated = await queryGetRecipeCookedAt.execute({ title: 'steak' });
+      expect(updated.cookedAt).toEqual([
+        new Date('2020-01-01T00:00:00.000Z'),
+        new Date('2020-01-02T00:00:00.000Z'),
+      ]);
+      expect(apiCalls).toEqual(['steak']);
+
+      // prove that an update trigger does not cache an entry which was not cached
+      await mutationCookRecipe.execute({
+        title: 'tofu',
+        at: new Date('2020-01-02T00:00:00.000Z'),
+      });
+      expect(await queryGetRecipeCookedAt.execute({ title: 'tofu' })).toEqual({
+        cookedAt: [new Date('2020-01-01T00:00:00.000Z')],
+      });
+      expect(apiCalls).toEqual(['steak', 'tofu']);
+    });
+    it('should throw an error if a value codec and default value serialization methods are both specified', () => {
+      expect(() =>
+        createRemoteStateCachingContext({
+          cache: createRemoteStateCacheInMemory(),
+          valueCodec: createRemoteStateCacheValueCodecTyped(),
+          serialize: { value: (output) => JSON.stringify(output) },
+        }),
+      ).toThrow('a value codec and default value serialization methods');
+    });
   });
 });
@@ -1,5 +1,6 @@
 import { BadRequestError } from '@ehmpathy/error-fns';
-import { isAFunction, PickOne } from 'type-fns';
+import { randomBytes } from 'crypto';
+import { isAFunction, isPresent, PickOne } from 'type-fns';
 import {
   WithSimpleCachingOptions,
   LogicWithExtendableCachingAsync,
@@ -7,25 +8,134 @@ import {
   KeySerializationMethod,
   WithSimpleCachingCacheOption,
   WithSimpleCachingAsyncOptions,
+  withSimpleCachingAsync,
 } from 'with-simple-caching';
 
 import { RemoteStateCache } from './RemoteStateCache';
+import {
+  RemoteStateCacheBusMessage,
+  RemoteStateCacheBusOptions,
+} from './RemoteStateCacheBus';
 import {
   RemoteStateCacheContext,
+  RemoteStateCacheContextMutationRegistration,
   RemoteStateCacheContextQueryRegistration,
 } from './RemoteStateCacheContext';
 import {
+  createRemoteStateCacheEventEmitter,
+  RemoteStateCacheEventMutationCause,
+  RemoteStateCacheEventSubscribers,
+  RemoteStateCacheEventType,
+} from './RemoteStateCacheEvent';
+import {
+  getExpirationIndexKey,
+  getExpiresAtFromIndex,
+  setExpiresAtToIndex,
+} from './RemoteStateCacheExpirationIndex';
+import {
+  getFreshnessIndexKey,
+  getStaleAtFromIndex,
+  setStaleAtToIndex,
+} from './RemoteStateCacheFreshnessIndex';
+import {
+  getInputIndexKey,
+  getInputsFromIndex,
+  RemoteStateCacheInputEntry,
+  remoteStateCacheInputCodec,
+  setInputToIndex,
+} from './RemoteStateCacheInputIndex';
+import {
+  assertIsValidQueryNamespace,
+  assertIsValidQueryVersion,
+  createRemoteStateCacheKeyCodec,
+  REMOTE_STATE_CACHE_KEY_DELIMITER,
+} from './RemoteStateCacheKeyCodec';
+import {
+  getCacheWithKeyIndex,
+  getKeyIndexKey,
+  getKeysFromIndex,
+  rebuildKeyIndex,
+} from './RemoteStateCacheKeyIndex';
+import {
+  getCacheWithLegacyKeysSuperseded,
+  isLegacyKeySuperseded,
+} from './RemoteStateCacheLegacyKeyIndex';
+import {
+  defaultRemoteStateCacheLogger,
+  RemoteStateCacheLogger,
+} from './RemoteStateCacheLogger';
+import {
+  RemoteStateCacheSnapshot,
+  RemoteStateCacheSnapshotEntry,
+} from './RemoteStateCacheSnapshot';
+import {
+  addEntryToTagIndex,
+  getEntriesFromTagIndex,
+  RemoteStateCacheTaggedEntry,
+  removeEntriesFromTagIndex,
+} from './RemoteStateCacheTagIndex';
+import { RemoteStateCacheValueCodec } from './RemoteStateCacheValueCodec';
+import {
+  DEFAULT_REFETCH_CONCURRENCY,
+  MUTATION_EXECUTION_PHASE_BY_STATUS,
+  MutationExecutionPhase,
   MutationExecutionStatus,
+  RemoteStateCacheKeySerializationMode,
+  RemoteStateMutationTagsMethod,
+  RemoteStateQueryInvalidationStrategy,
   RemoteStateQueryInvalidationTrigger,
+  RemoteStateQueryOptimisticRollbackStrategy,
+  RemoteStateQueryOptimisticUpdateTrigger,
+  RemoteStateQueryOutputValidator,
+  RemoteStateQueryRefetchMode,
+  RemoteStateQueryRefetchOptions,
+  RemoteStateQuerySeedTrigger,
+  RemoteStateQueryStaleWhileRevalidateOptions,
+  RemoteStateQueryTagsMethod,
+  RemoteStateQueryTriggerType,
   RemoteStateQueryUpdateTrigger,
+  RemoteStateTriggerFailurePolicy,
 } from './RemoteStateQueryCachingOptions';
+import {
+  RemoteStateTriggerFailure,
+  TriggerExecutionError,
+} from './TriggerExecutionError';
+import { connectRemoteStateCacheBus } from './connectRemoteStateCacheBus';
+import { createRemoteStateCacheContextRegistry } from './createRemoteStateCacheContextRegistry';
+import { createRemoteStateCacheStats } from './createRemoteStateCacheStats';
+import { isRemoteStateCacheTwoTier } from './createRemoteStateCacheTwoTier';
 import {
   defaultKeySerializationMethod,
   defaultValueDeserializationMethod,
   defaultValueSerializationMethod,
+  legacyKeySerializationMethod,
 } from './defaults';
+import {
+  describeRemoteStateCacheContextGraph,
+  RemoteStateCacheContextGraphFormat,
+} from './describeRemoteStateCacheContextGraph';
+import {
+  getAffectedEntriesOfTrigger,
+  mergeAffectedEntriesOfTriggers,
+} from './getAffectedEntriesOfTrigger';
+import { getCacheObservedForExecution } from './getCacheObservedForExecution';
+import {
+  getCacheValidatedForExecution,
+  getValidationErrorOfOutput,
+  invalidateCachedOutputWhichFailedValidation,
+} from './getCacheValidatedForExecution';
+import { mapWithConcurrencyLimit } from './mapWithConcurrencyLimit';
 
-interface WithRemoteStateCachingOptions {
+/**
+ * a request to refetch the entries a trigger invalidated, once the mutation which invalidated them has completed
+ */
+interface RemoteStateQueryRefetchRequest {
+  registration: RemoteStateCacheContextQueryRegistration<any, any>;
+  refetch: RemoteStateQueryRefetchOptions;
+  inputs: any[][];
+}
+
+export interface WithRemoteStateCachingOptions {
   /**
    * a manually specified name, to be used if the function does not have a name defined of its own
    *
@@ -41,6 +151,85 @@ interface WithRemoteStateCachingOptions {
   name?: string | { override: string };
 }
 
+/**
+ * the options a query can be registered to remote-state caching with
+ */
+export interface WithRemoteStateQueryRegistrationOptions<
+  Q extends (...args: any) => any,
+> extends WithRemoteStateCachingOptions {
+  /**
+   * declares the tags carried by each cached output of the query, so that mutations can invalidate it by tag
+   *
+   * relevance
+   * - an alternative to wiring up an `invalidatedBy` trigger for every query and mutation pair
+   */
+  tags?: RemoteStateQueryTagsMethod<Q>;
+
+  /**
+   * serves stale cached values immediately while they are revalidated in the background, once they are older than a soft freshness window
+   *
+   * note
+   * - defaults to the context level option, if specified
+   */
+  staleWhileRevalidate?: RemoteStateQueryStaleWhileRevalidateOptions;
+
+  /**
+   * the policy with which the failures of the query's triggers are handled
+   *
+   * note
+   * - defaults to the context level option
+   */
+  triggerFailurePolicy?: RemoteStateTriggerFailurePolicy;
+
+  /**
+   * a validator which each cached output of the query must pass to be used, e.g., to detect outputs cached in a shape from before a deploy
+   *
+   * note
+   * - runs on every cache hit, and on the cached output before each `updatedBy` trigger updates it
+   * - a cached output which fails is invalidated and treated as a miss, and reported with a `validationFailed` event
+   */
+  validator?: RemoteStateQueryOutputValidator;
+
+  /**
+   * the version of the query, which namespaces its cache keys
+   *
+   * relevance
+   * - bump it when the logic or the shape of the output of the query changes, so that the outputs cached by the previous version are never read
+   *
+   * note
+   * - the keys of versions which are no longer registered can be listed and purged with `getKeysOfUnregisteredVersions` and `purgeKeysOfUnregisteredVersions`
+   */
+  version?: string | number;
+
+  /**
+   * whether to persist the input of each cached output in the cache, next to it
+   *
+   * relevance
+   * - lets triggers select the cached entries of the query by input, refetch the entries they invalidate, and lets the entries be dehydrated
+   *
+   * note
+   * - defaults to `true` once an `invalidatedBy` or `updatedBy` trigger is added to the query, and `false` otherwise, since inputs may hold secrets (e.g., credentials) and each costs a write per miss
+   * - set `true` if the triggers of the query are added in other processes which share the cache, or to dehydrate its entries
+   * - set `false` to never persist its inputs, in which case its entries can only be selected by key
+   */
+  indexInputs?: boolean;
+}
+
+/**
+ * the options a mutation can be registered to remote-state caching with
+ */
+export interface WithRemoteStateMutationRegistrationOptions<
+  M extends (...args: any) => any,
+> extends WithRemoteStateCachingOptions {
+  /**
+   * declares the tags touched by each execution of the mutation, so that every cached query output carrying one of them is invalidated
+   *
+   * relevance
+   * - an alternative to wiring up an `invalidatedBy` trigger for every query and mutation pair
+   */
+  touches?: RemoteStateMutationTagsMethod<M>;
+}
+
 /**
  * enumerates the types of operations which can be executed against remote state
  */
@@ -119,6 +308,8 @@ export type QueryWithRemoteStateCachingAddTriggerMethod<
   args: PickOne<{
     invalidatedBy: RemoteStateQueryInvalidationTrigger<Q, M>;
     updatedBy: RemoteStateQueryUpdateTrigger<Q, M>;
+    optimisticallyUpdatedBy: RemoteStateQueryOptimisticUpdateTrigger<Q, M>;
+    seededBy: RemoteStateQuerySeedTrigger<Q, M>;
   }>,
 ) => void;
 
@@ -177,7 +368,14 @@ export const createRemoteStateCachingContext = <
    */
   C extends RemoteStateCache,
 >({
-  cache,
+  cache: cacheFromOptions,
+  on,
+  bus: busOptions,
+  triggerFailurePolicy = RemoteStateTriggerFailurePolicy.THROW,
+  keySerializationMode = RemoteStateCacheKeySerializationMode.CANONICAL,
+  valueCodec,
+  namespace = [],
+  logger = defaultRemoteStateCacheLogger,
   ...defaultOptions
 }: {
   /**
@@ -213,7 +411,85 @@ export const createRemoteStateCachingContext = <
       WithSimpleCachingAsyncOptions<any, C>
     >['deserialize']['value'];
   };
+
+  /**
+   * allow subscribing to the lifecycle events of the cache
+   *
+   * for example
+   * - `hit`, `miss`, and `set` when a query is executed
+   * - `invalidate` and `update` when a cached query output is invalidated or updated, manually or by a mutation
+   * - `triggerFired` when a mutation fires a trigger of a query
+   */
+  on?: RemoteStateCacheEventSubscribers;
+
+  /**
+   * allow specifying a default stale-while-revalidate mode for every query
+   */
+  staleWhileRevalidate?: RemoteStateQueryStaleWhileRevalidateOptions;
+
+  /**
+   * allow connecting to a bus, to broadcast invalidations and updates to the contexts of other processes, and to apply theirs
+   *
+   * relevance
+   * - enables in-process state (e.g., executions in flight) to learn about the mutations of other processes
+   */
+  bus?: RemoteStateCacheBusOptions;
+
+  /**
+   * allow specifying the default policy with which the failures of each query's triggers are handled
+   *
+   * note
+   * - defaults to `THROW`
+   */
+  triggerFailurePolicy?: RemoteStateTriggerFailurePolicy;
+
+  /**
+   * allow specifying how the inputs of queries are serialized into cache keys, for the queries which do not specify their own key serialization method
+   *
+   * note
+   * - defaults to `CANONICAL`
+   * - use `CANONICAL_WITH_LEGACY_READS` while rolling out an upgrade over a cache keyed by the legacy method, and `LEGACY` while some of the processes which share the cache still write legacy keys
+   */
+  keySerializationMode?: RemoteStateCacheKeySerializationMode;
+
+  /**
+   * allow specifying the codec with which the outputs of queries are serialized into the cache, for the queries which do not specify their own serialization methods
+   *
+   * note
+   * - defaults to plain json
+   * - use `createRemoteStateCacheValueCodecTyped` to round-trip the types json does not support, e.g., dates and the instances of your own classes
+   * - can not be combined with the default `serialize.value` or `deserialize.value` methods, since it replaces them
+   */
+  valueCodec?: RemoteStateCacheValueCodec;
+
+  /**
+   * allow specifying the segments which namespace every cache key of this context, e.g., the app and the stage
+   *
+   * relevance
+   * - lets several apps or stages share one cache, without reading, indexing, or invalidating each other's keys
+   *
+   * for example
+   * - `['recipes-api', 'prod']`
+   */
+  namespace?: string[];
+
+  /**
+   * allow specifying the logger to which the failures the context recovers from are reported, e.g., background refetches which failed
+   *
+   * note
+   * - defaults to the console
+   */
+  logger?: RemoteStateCacheLogger;
 }) => {
+  // sanity check that the default value serde methods are unambiguous
+  if (
+    valueCodec &&
+    (defaultOptions.serialize?.value || defaultOptions.deserialize?.value)
+  )
+    throw new BadRequestError(
+      'a value codec and default value serialization methods were both specified for the remote-state caching context. only one should be specified, since both define how values are serialized',
+    );
+
   /**
    * the context we'll be using for the application
    */
@@ -224,6 +500,114 @@ export const createRemoteStateCachingContext = <
     },
   };
 
+  /**
+   * the codec which owns the format of the namespaced cache keys of each query
+   */
+  const keyCodec = createRemoteStateCacheKeyCodec({ namespace });
+
+  /**
+   * a method which namespaces a tag, so that the tags of other namespaces which share the cache do not invalidate the entries of this one
+   */
+  const getTagNamespaced = (tag: string): string =>
+    [...namespace, tag].join(REMOTE_STATE_CACHE_KEY_DELIMITER);
+
+  /**
+   * the names of the queries which read legacy keys, while canonical keys are rolled out
+   */
+  const queriesReadingLegacyKeys = new Set<string>();
+
+  /**
+   * the cache to use across operations, extended to maintain the key index of each query as its keys are set and invalidated, and to supersede the legacy keys of the queries which read them
+   *
+   * note
+   * - a cache extracted from input at runtime is extended once per cache it extracts
+   */
+  const cachesWithKeyIndex = new WeakMap<C, C>();
+  const getCacheWithKeyIndexOnce = (cacheToExtend: C): C => {
+    const found = cachesWithKeyIndex.get(cacheToExtend);
+    if (found) return found;
+    const extended = getCacheWithKeyIndex({
+      cache:
+        keySerializationMode ===
+        RemoteStateCacheKeySerializationMode.CANONICAL_WITH_LEGACY_READS
+          ? getCacheWithLegacyKeysSuperseded({
+              cache: cacheToExtend,
+              keyCodec,
+              getQueryReadingLegacyKeys: ({ query }) =>
+                queriesReadingLegacyKeys.has(query)
+                  ? context.registered.queries[query]?.options ?? null
+                  : null,
+            })
+          : cacheToExtend,
+      keyCodec,
+    });
+    cachesWithKeyIndex.set(cacheToExtend, extended);
+    return extended;
+  };
+  const cache: WithSimpleCachingCacheOption<SLI, C> = isAFunction(
+    cacheFromOptions,
+  )
+    ? (args) => getCacheWithKeyIndexOnce(cacheFromOptions(args))
+    : getCacheWithKeyIndexOnce(cacheFromOptions);
+
+  /**
+   * resolves the cache of the context for the input of an operation, whether it was specified directly or is extracted from input
+   *
+   * note
+   * - accepts the inputs of mutations too, since the cache is extracted from the inputs common across all methods of the context
+   */
+  const getCacheForInput = ({ forInput }: { forInput: unknown[] }): C =>
+    isAFunction(cache) ? cache({ fromInput: forInput as SLI }) : cache;
+
+  /**
+   * the id of this context, to distinguish it from its peers on the bus
+   */
+  const origin = randomBytes(8).toString('hex');
+
+  /**
+   * a method which applies the invalidations and updates received from peers
+   */
+  const onMessageFromPeer = async (message: RemoteStateCacheBusMessage) => {
+    context.registered.queries[message.query]?.dropExecutionsInFlight({
+      forKey: message.key,
+    });
+    if (busOptions?.isCacheShared === false && !isAFunction(cache))
+      await cache.set(message.key, undefined);
+    // note: updates are invalidated too, since they can not be replayed without the mutation
+    else if (!isAFunction(cache) && isRemoteStateCacheTwoTier(cache))
+      await cache.local.set(message.key, undefined); // the local tier is never shared, even when the remote tier is
+    emit(message.type, {
+      query: message.query,
+      key: message.key,
+      input: null,
+      mutation: null,
+      peer: message.origin,
+    });
+  };
+
+  // track the statistics of each query, and connect to the bus, if any, since both subscribe to the lifecycle events below
+  const stats = createRemoteStateCacheStats();
+  const bus = busOptions
+    ? connectRemoteStateCacheBus({
+        bus: busOptions,
+        origin,
+        onMessage: onMessageFromPeer,
+        logger,
+      })
+    : null;
+
+  /**
+   * the method we'll use to emit lifecycle events to subscribers
+   */
+  const emit = createRemoteStateCacheEventEmitter({
+    subscribers: [
+      stats.subscribers,
+      ...(bus ? [bus.subscribers] : []),
+      ...(on ? [on] : []),
+    ],
+    logger,
+  });
+
   /**
    * a function which is able to register a query to the context
    */
@@ -245,6 +629,27 @@ export const createRemoteStateCachingContext = <
     context.registered.queries[registration.name] = registration;
   };
 
+  /**
+   * a function which is able to register a mutation to the context
+   */
+  const registerMutationToRemoteStateContext = ({
+    registration,
+  }: {
+    registration: RemoteStateCacheContextMutationRegistration<any>;
+  }) => {
+    // sanity check that a mutation with that name is not already registered
+    if (registration.name in context.registered.mutations)
+      throw new BadRequestError(
+        'a mutation with this name was already registered to the context. these names should be unique',
+        {
+          name: registration.name,
+        },
+      );
+
+    // add it to the context
+    context.registered.mutations[registration.name] = registration;
+  };
+
   /**
    * a wrapper which adds remote-state caching to a query
    *
@@ -259,7 +664,7 @@ export const createRemoteStateCachingContext = <
   >(
     logic: L,
     options: Omit<WithSimpleCachingOptions<L, C>, 'cache'> &
-      WithRemoteStateCachingOptions,
+      WithRemoteStateQueryRegistrationOptions<L>,
   ): QueryWithRemoteStateCaching<L, C> => {
     // grab the name of this query
     const name = extractNameFromRegistrationInputs({
@@ -268,30 +673,188 @@ export const createRemoteStateCachingContext = <
       options,
     });
 
+    // sanity check that the name and version can be used as an unambiguous namespace for the query's keys
+    assertIsValidQueryNamespace({ name });
+    const version =
+      options.version === undefined ? undefined : String(options.version);
+    if (version !== undefined) assertIsValidQueryVersion({ name, version });
+
     // define a key serialization method which prefixes the key with the queries name (to give each query it's own namespace), edtending the user inputted serialization method
     const keySerializationMethodFromOptions =
       options.serialize?.key ??
       (defaultOptions.serialize?.key as any as KeySerializationMethod<
         Parameters<L>
       >) ??
-      defaultKeySerializationMethod;
+      (keySerializationMode === RemoteStateCacheKeySerializationMode.LEGACY
+        ? legacyKeySerializationMethod
+        : defaultKeySerializationMethod);
     const keySerializationMethodWithNamespace: KeySerializationMethod<
       Parameters<L>
     > = (...args) =>
-      [name, keySerializationMethodFromOptions(...args)].join('.');
+      keyCodec.format({
+        query: name,
+        version,
+        key: keySerializationMethodFromOptions(...args),
+      });
 
     // define the serde methods
-    const valueSerializationMethod =
+    const valueSerializationMethodFromOptions =
       options.serialize?.value ??
       (defaultOptions.serialize?.value as any) ??
+      valueCodec?.serialize ??
       defaultValueSerializationMethod;
-    const valueDeserialiationMethod =
+    const valueSerializationMethod: Required<
+      WithSimpleCachingAsyncOptions<L, C>
+    >['serialize']['value'] = (output) =>
+      output === undefined
+        ? (undefined as any) // an undefined output is an invalidation, e.g., from an update of an entry which was not cached, so it must not be serialized into a value
+        : valueSerializationMethodFromOptions(output);
+    const valueDeserialiationMethodFromOptions =
       options.deserialize?.value ??
       (defaultOptions.deserialize?.value as any) ??
+      valueCodec?.deserialize ??
       defaultValueDeserializationMethod;
+    const valueDeserialiationMethod: Required<
+      WithSimpleCachingAsyncOptions<L, C>
+    >['deserialize']['value'] = (cached) => {
+      try {
+        return valueDeserialiationMethodFromOptions(cached);
+      } catch (error) {
+        stats.recordDeserializationFailure({ query: name });
+        throw error;
+      }
+    };
+
+    // define how to read the output cached under the legacy key of an input, if the context reads legacy keys and the query serializes keys by default
+    const isReadingLegacyKeys =
+      keySerializationMode ===
+        RemoteStateCacheKeySerializationMode.CANONICAL_WITH_LEGACY_READS &&
+      !options.serialize?.key &&
+      !defaultOptions.serialize?.key;
+    if (isReadingLegacyKeys) queriesReadingLegacyKeys.add(name);
+    const getOutputFromLegacyKey = async ({
+      cache: cacheForInput,
+      input,
+    }: {
+      cache: RemoteStateCache;
+      input: Parameters<L>;
+    }): Promise<{ output: Awaited<ReturnType<L>> } | null> => {
+      if (!isReadingLegacyKeys) return null;
+      const legacyKey = (() => {
+        try {
+          return keyCodec.format({
+            query: name,
+            version,
+            key: legacyKeySerializationMethod({ forInput: input }),
+          });
+        } catch {
+          return null; // the legacy method throws on some inputs (e.g., bigints), which could never have been cached under it
+        }
+      })();
+      if (!legacyKey) return null;
+      const key = keySerializationMethodWithNamespace({ forInput: input });
+      if (legacyKey === key) return null; // the keys are the same for most inputs, so the miss was a miss of the legacy key too
+      if (await isLegacyKeySuperseded({ cache: cacheForInput, key })) {
+        await cacheForInput.set(legacyKey, undefined); // the canonical key was set or invalidated since the legacy entry was cached, so the legacy entry is out of date
+        return null;
+      }
+      const cached = await cacheForInput.get(legacyKey);
+      if (cached === undefined) return null;
+      const output = await valueDeserialiationMethod(
+        cached as Parameters<typeof valueDeserialiationMethod>[0],
+      );
+      const error = options.validator
+        ? await getValidationErrorOfOutput({
+            validator: options.validator,
+            output,
+          })
+        : null;
+      if (error) {
+        await invalidateCachedOutputWhichFailedValidation({
+          cache: cacheForInput,
+          query: name,
+          key: legacyKey,
+          input,
+          mutation: null,
+          error,
+          emit,
+        });
+        return null;
+      }
+      await cacheForInput.set(legacyKey, undefined); // the output moves to the canonical key, so the legacy entry must not outlive invalidations of it
+      return { output };
+    };
+
+    // track the latency of the logic, which is only executed on cache miss
+    const logicWithLatencyTracking = (async (...args: Parameters<L>) => {
+      const startedAt = Date.now();
+      try {
+        return await logic(...args);
+      } finally {
+        stats.recordLogicLatency({
+          query: name,
+          seconds: (Date.now() - startedAt) / 1000,
+        });
+      }
+    }) as L;
+
+    // index the input of the output, if needed, so that triggers can select affected entries by input, the tags of the output, if the query declares them, so that mutations can invalidate it by tag, and its expiration, so that it can be dehydrated
+    const { tags } = options;
+    const staleWhileRevalidate =
+      options.staleWhileRevalidate ?? defaultOptions.staleWhileRevalidate;
+    const isIndexingInputs = () =>
+      options.indexInputs ??
+      !!(
+        registration.options.invalidatedBy.length ||
+        registration.options.updatedBy.length
+      ); // evaluated on each write, since triggers are added after the query is registered
+    const indexOutput = async ({
+      cache: cacheForInput,
+      input,
+      output,
+      secondsUntilExpiration = options.secondsUntilExpiration,
+    }: {
+      cache: RemoteStateCache;
+      input: Parameters<L>;
+      output: Awaited<ReturnType<L>>;
+      secondsUntilExpiration?: number;
+    }) => {
+      const key = keySerializationMethodWithNamespace({ forInput: input });
+      if (isIndexingInputs())
+        await setInputToIndex({
+          cache: cacheForInput,
+          namespace: keyCodec.formatQueryNamespace({ query: name, version }),
+          key,
+          input,
+          secondsUntilExpiration,
+        });
+      if (
+        secondsUntilExpiration !== undefined &&
+        Number.isFinite(secondsUntilExpiration)
+      )
+        await setExpiresAtToIndex({
+          cache: cacheForInput,
+          key,
+          secondsUntilExpiration,
+        });
+      if (tags)
+        await addEntryToTagIndex({
+          cache: cacheForInput,
+          tags: tags({ input, output }).map(getTagNamespaced),
+          entry: { query: name, key },
+          secondsUntilExpiration,
+        });
+      if (staleWhileRevalidate)
+        await setStaleAtToIndex({
+          cache: cacheForInput,
+          key,
+          staleAt: Date.now() + staleWhileRevalidate.secondsUntilStale * 1000,
+          secondsUntilExpiration,
+        });
+    };
 
     // extend the logic with caching
-    const logicExtendedWithCaching = withExtendableCachingAsync(logic, {
+    const cachingOptions = {
       ...options,
       serialize: {
         key: keySerializationMethodWithNamespace,
@@ -300,20 +863,267 @@ export const createRemoteStateCachingContext = <
       deserialize: {
         value: valueDeserialiationMethod,
       },
+    };
+    const logicExtendedWithCaching = withExtendableCachingAsync(logic, {
+      ...cachingOptions,
       cache, // this works in practice // TODO: resolve the type assertion error
     });
 
+    // define how to execute the logic with caching once, observing the cache of the execution to emit hit, miss, and set events, and to keep its writes local once it is dropped
+    const executeWithCaching = ({
+      input,
+      execution,
+      isRevalidation = false,
+    }: {
+      input: Parameters<L>;
+      execution: { isDropped: boolean };
+      isRevalidation?: boolean;
+    }): Promise<Awaited<ReturnType<L>>> => {
+      const cacheForInput = getCacheForInput({ forInput: input });
+      const outputsDeserialized = new Map<
+        Parameters<typeof valueDeserialiationMethod>[0],
+        Awaited<ReturnType<L>>
+      >(); // the outputs this execution deserialized, so that the cached output checked before it is served is not deserialized twice
+      const deserializeForExecution: typeof valueDeserialiationMethod = (
+        cached,
+      ) => {
+        if (outputsDeserialized.has(cached))
+          return outputsDeserialized.get(cached)!;
+        const output = valueDeserialiationMethod(cached);
+        outputsDeserialized.set(cached, output);
+        return output;
+      };
+      const cacheForExecution = getCacheObservedForExecution({
+        cache: isRevalidation
+          ? cacheForInput // revalidations do not read the cached output
+          : getCacheValidatedForExecution({
+              cache: cacheForInput,
+              query: name,
+              input,
+              emit,
+              logger,
+              validator: options.validator,
+              deserialize: deserializeForExecution as (
+                cached: string,
+              ) => unknown,
+            }),
+        query: name,
+        input,
+        emit,
+        execution,
+        isBypassingGet: isRevalidation,
+      });
+      const logicWithIndexing = (async (...args: Parameters<L>) => {
+        const fromLegacyKey = isRevalidation
+          ? null // revalidations must read from the source
+          : await getOutputFromLegacyKey({ cache: cacheForInput, input: args });
+        const output = fromLegacyKey
+          ? fromLegacyKey.output
+          : await logicWithLatencyTracking(...args);
+        if (!execution.isDropped)
+          await indexOutput({ cache: cacheForInput, input: args, output }); // only index outputs which will be written back
+        return output;
+      }) as L;
+      return withSimpleCachingAsync(logicWithIndexing, {
+        ...cachingOptions,
+        deserialize: { value: deserializeForExecution },
+        cache: cacheForExecution,
+        ...(isRevalidation
+          ? { bypass: { ...options.bypass, get: () => true } } // revalidations must skip the stale cached value
+          : {}),
+      })(...input);
+    };
+
+    // track the executions in flight per key, so that concurrent calls for the same key share one execution, and so that they can be dropped if the key is invalidated mid-flight
+    const executionsInFlight = new Map<
+      string,
+      {
+        execution: { isDropped: boolean };
+        promise: Promise<Awaited<ReturnType<L>>>;
+      }
+    >();
+    const revalidationsInFlight = new Map<
+      string,
+      { execution: { isDropped: boolean }; promise: Promise<void> }
+    >();
+    const dropExecutionsInFlight = ({ forKey }: { forKey: string }) =>
+      [executionsInFlight, revalidationsInFlight].forEach((inFlight) => {
+        const found = inFlight.get(forKey);
+        if (!found) return;
+        found.execution.isDropped = true;
+        inFlight.delete(forKey);
+      });
+
+    // define how to revalidate a stale cached value in the background, starting at most one refresh per key at a time within this process
+    const revalidate = ({
+      forInput,
+      key,
+    }: {
+      forInput: Parameters<L>;
+      key: string;
+    }) => {
+      if (revalidationsInFlight.has(key)) return;
+      const execution = { isDropped: false };
+      const promise = (async () => {
+        try {
+          await executeWithCaching({
+            input: forInput,
+            execution,
+            isRevalidation: true,
+          });
+        } catch (error) {
+          logger.warn(
+            'a remote-state query failed to revalidate a stale cached value in the background. ignoring it, to continue serving the stale value until it expires',
+            { query: name, key, error },
+          );
+        } finally {
+          if (revalidationsInFlight.get(key)?.execution === execution)
+            revalidationsInFlight.delete(key);
+        }
+      })();
+      revalidationsInFlight.set(key, { execution, promise });
+    };
+
+    // define how to start an execution which concurrent calls for the same key can share, serving stale values while they are revalidated, if enabled
+    const startExecution = ({
+      input,
+      key,
+      isRefetch = false,
+    }: {
+      input: Parameters<L>;
+      key: string;
+      isRefetch?: boolean;
+    }) => {
+      const execution = { isDropped: false };
+      const promise = (async (): Promise<Awaited<ReturnType<L>>> => {
+        try {
+          const output = await executeWithCaching({
+            input,
+            execution,
+            isRevalidation: isRefetch,
+          });
+          if (!staleWhileRevalidate) return output;
+          const staleAt = await getStaleAtFromIndex({
+            cache: getCacheForInput({ forInput: input }),
+            key,
+          });
+          const isStale = staleAt !== undefined && staleAt <= Date.now();
+          if (isStale && !execution.isDropped)
+            revalidate({ forInput: input, key });
+          return output;
+        } finally {
+          if (executionsInFlight.get(key)?.execution === execution)
+            executionsInFlight.delete(key);
+        }
+      })();
+      executionsInFlight.set(key, { execution, promise });
+      return promise;
+    };
+
+    // define how to execute the logic with caching, sharing executions in flight
+    const execute = (async (...args: Parameters<L>) => {
+      const key = keySerializationMethodWithNamespace({ forInput: args });
+      const found = executionsInFlight.get(key);
+      if (found) return found.promise;
+      return startExecution({ input: args, key });
+    }) as L;
+
+    // define how to refetch the cached value for an input, skipping the value currently cached, unless an execution is already in flight for it
+    const refetch = async ({ forInput }: { forInput: Parameters<L> }) => {
+      const key = keySerializationMethodWithNamespace({ forInput });
+      const found = executionsInFlight.get(key);
+      if (found) {
+        await found.promise;
+        return;
+      }
+      await startExecution({ input: forInput, key, isRefetch: true });
+    };
+
+    // define how to seed the cached value for an input, whether or not one is cached, as if the query had produced it
+    const seed = async ({
+      forInput,
+      output,
+      secondsUntilExpiration = options.secondsUntilExpiration,
+    }: {
+      forInput: Parameters<L>;
+      output: Awaited<ReturnType<L>>;
+      secondsUntilExpiration?: number;
+    }) => {
+      const key = keySerializationMethodWithNamespace({ forInput });
+      dropExecutionsInFlight({ forKey: key }); // executions in flight read the state from before the seed, so they must not overwrite it
+      const cacheForInput = getCacheForInput({ forInput });
+      await cacheForInput.set(key, valueSerializationMethod(output), {
+        secondsUntilExpiration,
+      });
+      await indexOutput({
+        cache: cacheForInput,
+        input: forInput,
+        output,
+        secondsUntilExpiration,
+      });
+    };
+
+    // define how to invalidate and update the cache manually, emitting events for each
+    const invalidate: LogicWithExtendableCachingAsync<
+      L,
+      C
+    >['invalidate'] = async (args) => {
+      dropExecutionsInFlight({
+        forKey:
+          'forInput' in args
+            ? keySerializationMethodWithNamespace({ forInput: args.forInput })
+            : args.forKey,
+      });
+      await logicExtendedWithCaching.invalidate(args);
+      emit(RemoteStateCacheEventType.INVALIDATE, {
+        query: name,
+        key:
+          'forInput' in args
+            ? keySerializationMethodWithNamespace({ forInput: args.forInput })
+            : args.forKey,
+        input: 'forInput' in args ? args.forInput : null,
+        mutation: null,
+      });
+    };
+    const update: LogicWithExtendableCachingAsync<L, C>['update'] = async (
+      args,
+    ) => {
+      await logicExtendedWithCaching.update(args);
+      emit(RemoteStateCacheEventType.UPDATE, {
+        query: name,
+        key:
+          'forInput' in args
+            ? keySerializationMethodWithNamespace({ forInput: args.forInput })
+            : args.forKey,
+        input: 'forInput' in args ? args.forInput : null,
+        mutation: null,
+      });
+    };
+
     // register this query
     const registration: RemoteStateCacheContextQueryRegistration<L, C> = {
       name,
       query: logicExtendedWithCaching,
+      dropExecutionsInFlight,
+      refetch,
+      seed,
       options: {
         invalidatedBy: [],
         updatedBy: [],
+        optimisticallyUpdatedBy: [],
+        seededBy: [],
+        secondsUntilExpiration: options.secondsUntilExpiration,
+        staleWhileRevalidate,
+        triggerFailurePolicy:
+          options.triggerFailurePolicy ?? triggerFailurePolicy,
+        validator: options.validator,
+        version,
+        serialize: { key: keySerializationMethodWithNamespace },
         deserialize: { value: valueDeserialiationMethod },
       },
     };
     registerQueryToRemoteStateContext({ registration });
+    stats.track({ query: name });
 
     // define a method the user can use to add triggers (since defining them on inputs does not give good type safety)
     const addTrigger: QueryWithRemoteStateCachingAddTriggerMethod<L> = <
@@ -321,16 +1131,86 @@ export const createRemoteStateCachingContext = <
     >({
       invalidatedBy,
       updatedBy,
+      optimisticallyUpdatedBy,
+      seededBy,
     }: PickOne<{
       invalidatedBy: RemoteStateQueryInvalidationTrigger<L, M>;
       updatedBy: RemoteStateQueryUpdateTrigger<L, M>;
+      optimisticallyUpdatedBy: RemoteStateQueryOptimisticUpdateTrigger<L, M>;
+      seededBy: RemoteStateQuerySeedTrigger<L, M>;
     }>) => {
-      if (invalidatedBy) registration.options.invalidatedBy.push(invalidatedBy);
-      if (updatedBy) registration.options.updatedBy.push(updatedBy);
+      // define which list of triggers this trigger belongs to
+      const { type, trigger, triggers } = ((): {
+        type: RemoteStateQueryTriggerType;
+        trigger: {
+          mutation: { name: string };
+          affects?: (...args: any[]) => any;
+          update?: (...args: any[]) => any;
+          seeds?: (...args: any[]) => any;
+        };
+        triggers: {
+          mutation: { name: string };
+          affects?: (...args: any[]) => any;
+          update?: (...args: any[]) => any;
+          seeds?: (...args: any[]) => any;
+        }[];
+      } => {
+        if (invalidatedBy)
+          return {
+            type: RemoteStateQueryTriggerType.INVALIDATION,
+            trigger: invalidatedBy,
+            triggers: registration.options.invalidatedBy,
+          };
+        if (updatedBy)
+          return {
+            type: RemoteStateQueryTriggerType.UPDATE,
+            trigger: updatedBy,
+            triggers: registration.options.updatedBy,
+          };
+        if (optimisticallyUpdatedBy)
+          return {
+            type: RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE,
+            trigger: optimisticallyUpdatedBy,
+            triggers: registration.options.optimisticallyUpdatedBy,
+          };
+        return {
+          type: RemoteStateQueryTriggerType.SEED,
+          trigger: seededBy!,
+          triggers: registration.options.seededBy,
+        };
+      })();
+
+      // sanity check that this exact trigger was not already added, since that is almost certainly an accident (e.g., a method which adds the same trigger object, or the same handlers, being called twice)
+      // note: triggers are compared by the identity of their handlers, so a trigger defined again with new handlers (e.g., by a module which was loaded twice) is not caught, since it can not be told apart from a distinct trigger for the same mutation
+      const isDuplicate = triggers.some(
+        (found) =>
+          found.mutation.name === trigger.mutation.name &&
+          found.affects === trigger.affects &&
+          found.update === trigger.update &&
+          found.seeds === trigger.seeds,
+      );
+      if (isDuplicate)
+        throw new BadRequestError(
+          'this exact trigger was already added to the query. adding it again would run it twice per mutation, which is almost certainly an accident',
+          {
+            query: registration.name,
+            mutation: trigger.mutation.name,
+            type,
+          },
+        );
+
+      // add the trigger
+      triggers.push(trigger);
     };
 
     // and return the extended logic
-    return { ...logicExtendedWithCaching, addTrigger, name: registration.name };
+    return {
+      execute,
+      invalidate,
+      update,
+      addTrigger,
+      name: registration.name,
+    };
   };
 
   /**
@@ -352,7 +1232,7 @@ export const createRemoteStateCachingContext = <
     mutationName: string;
     mutationInput: Parameters<M>;
     mutationOutput: null;
-    mutationStatus: MutationExecutionStatus;
+    mutationStatus: MutationExecutionStatus.PENDING;
   }) =>
     onMutationOutput({
       mutationName,
@@ -361,6 +1241,162 @@ export const createRemoteStateCachingContext = <
       mutationStatus,
     }); // note: for now, its just an alias for readability. we may find additional requirements in the future
 
+  /**
+   * define a method which grabs the keys currently cached for each query, and the original inputs of those keys, when known
+   *
+   * note
+   * - the keys of each query are read from its key index, and fetched at most once per loader, so that every trigger of a mutation shares them
+   * - if the key index of a query was not built yet, it is built from a scan of the keys of the cache, which is shared across every query that needs it
+   */
+  const getCachedQueryEntriesLoader = ({
+    cache: cacheToSearch,
+  }: {
+    cache: RemoteStateCache;
+  }) => {
+    let keysScanned: Promise<string[]> | null = null;
+    const scanKeys = () =>
+      (keysScanned ??= Promise.resolve(cacheToSearch.keys()));
+    const entriesByQuery = new Map<
+      string,
+      Promise<{
+        cachedQueryKeys: string[];
+        cachedQueryInputs: RemoteStateCacheInputEntry[];
+      }>
+    >();
+    return ({
+      registration,
+    }: {
+      registration: RemoteStateCacheContextQueryRegistration<any, any>;
+    }) => {
+      const found = entriesByQuery.get(registration.name);
+      if (found) return found;
+      const loading = (async () => {
+        const cachedQueryKeys =
+          (await getKeysFromIndex({
+            cache: cacheToSearch,
+            namespace: keyCodec.formatQueryNamespace({
+              query: registration.name,
+              version: registration.options.version,
+            }),
+          })) ??
+          (await rebuildKeyIndex({
+            cache: cacheToSearch,
+            namespace: keyCodec.formatQueryNamespace({
+              query: registration.name,
+              version: registration.options.version,
+            }),
+            getKeys: scanKeys,
+            keyCodec,
+            secondsUntilExpiration: registration.options.secondsUntilExpiration,
+          }));
+        const cachedQueryInputs = await getInputsFromIndex({
+          cache: cacheToSearch,
+          namespace: keyCodec.formatQueryNamespace({
+            query: registration.name,
+            version: registration.options.version,
+          }),
+          keys: cachedQueryKeys,
+        });
+        return { cachedQueryKeys, cachedQueryInputs };
+      })();
+      entriesByQuery.set(registration.name, loading);
+      return loading;
+    };
+  };
+
+  /**
+   * define a method which invalidates every cached entry of a query, as a fallback for when its triggers fail
+   */
+  const invalidateEveryEntryOfQuery = async ({
+    registration,
+    cache: cacheToInvalidate,
+    cause,
+  }: {
+    registration: RemoteStateCacheContextQueryRegistration<any, any>;
+    cache: RemoteStateCache;
+    cause: RemoteStateCacheEventMutationCause;
+  }) => {
+    const { cachedQueryKeys } = await getCachedQueryEntriesLoader({
+      cache: cacheToInvalidate,
+    })({ registration });
+    await Promise.all(
+      cachedQueryKeys.map(async (forKey) => {
+        registration.dropExecutionsInFlight({ forKey });
+        await registration.query.invalidate({
+          forKey,
+          cache: cacheToInvalidate,
+        });
+        emit(RemoteStateCacheEventType.INVALIDATE, {
+          query: registration.name,
+          key: forKey,
+          input: null,
+          mutation: cause,
+        });
+      }),
+    );
+  };
+
+  /**
+   * define a method which runs the triggers of a query fired by a mutation, isolating their failure per the trigger failure policy of the query
+   *
+   * note
+   * - returns the failures which must be thrown; the rest are logged
+   * - if the query is not registered in this context, the policy of the context applies
+   */
+  const runTriggersOfQuery = async ({
+    query,
+    registration,
+    type,
+    phase,
+    cause,
+    cache: cacheOfTriggers,
+    run,
+  }: {
+    query: string | null;
+    registration?: RemoteStateCacheContextQueryRegistration<any, any>;
+    type: RemoteStateQueryTriggerType;
+    phase: MutationExecutionPhase;
+    cause: RemoteStateCacheEventMutationCause;
+    cache: RemoteStateCache;
+    run: () => Promise<void>;
+  }): Promise<RemoteStateTriggerFailure[]> => {
+    try {
+      await run();
+      return [];
+    } catch (error) {
+      const failure: RemoteStateTriggerFailure = {
+        query,
+        mutation: cause.name,
+        phase,
+        type,
+        policy:
+          registration?.options.triggerFailurePolicy ?? triggerFailurePolicy,
+        error: error as Error,
+      };
+      if (failure.policy === RemoteStateTriggerFailurePolicy.THROW)
+        return [failure];
+      logger.warn(
+        'a remote-state trigger failed. continuing, per the trigger failure policy of the query',
+        failure,
+      );
+      if (
+        failure.policy === RemoteStateTriggerFailurePolicy.INVALIDATE_QUERY &&
+        registration
+      )
+        await invalidateEveryEntryOfQuery({
+          registration,
+          cache: cacheOfTriggers,
+          cause,
+        }).catch((errorOfFallback) => {
+          logger.warn(
+            'a remote-state query failed to invalidate every cached entry, as a fallback for a trigger which failed. its entries may be stale until they expire',
+            { query, mutation: cause.name, error: errorOfFallback },
+          );
+        });
+      return [];
+    }
+  };
+
   /**
    * define a method which is able to kick off all registered query invalidations and query updates, on the execution of a mutation
    */
@@ -373,123 +1409,838 @@ export const createRemoteStateCachingContext = <
     mutationInput,
     mutationOutput,
     mutationStatus,
+    refetchesDeferred = [],
   }: {
     mutationName: string;
     mutationInput: Parameters<M>;
     mutationOutput: Awaited<ReturnType<M>> | null;
     mutationStatus: MutationExecutionStatus;
-  }) => {
+    refetchesDeferred?: RemoteStateQueryRefetchRequest[];
+  }): Promise<{
+    refetchesDeferred: RemoteStateQueryRefetchRequest[];
+    failures: RemoteStateTriggerFailure[];
+  }> => {
     const registrations = Object.values(context.registered.queries);
+    const mutationRegistration = context.registered.mutations[mutationName];
+    const mutationPhase = MUTATION_EXECUTION_PHASE_BY_STATUS[mutationStatus];
+    const isTriggeredInThisPhase = (definition: {
+      mutation: { name: string };
+      phases?: MutationExecutionPhase[];
+    }) =>
+      definition.mutation.name === mutationName &&
+      (definition.phases ?? Object.values(MutationExecutionPhase)).includes(
+        mutationPhase,
+      );
+
+    // define the mutation which caused any events emitted
+    const cause: RemoteStateCacheEventMutationCause = {
+      name: mutationName,
+      input: mutationInput,
+      output: mutationOutput,
+      status: mutationStatus,
+    };
 
     // define the cache from mutation input, if needed
-    const mutationCache = isAFunction(cache)
-      ? cache({ fromInput: mutationInput as any as SLI }) // todo: resolve as any
-      : cache;
+    const mutationCache = getCacheForInput({ forInput: mutationInput });
+
+    // define how to grab the cached keys and inputs of each query, once for every trigger of this mutation
+    const getCachedQueryEntries = getCachedQueryEntriesLoader({
+      cache: mutationCache,
+    });
+    const keysInvalidated = new Set<string>(); // track the keys invalidated by this mutation, since the entries grabbed before were not updated to exclude them
 
     // for each registered query, handle invalidation if needed
-    await Promise.all(
-      registrations.map(async (registration) => {
-        // if invalidated by wasn't defined, do nothing
-        if (!registration.options.invalidatedBy) return;
-
-        // if invalidated by wasn't defined for this mutation, do nothing
-        const invalidatedByThisMutationDefinition =
-          registration.options.invalidatedBy.find(
-            (definition) => definition.mutation.name === mutationName,
-          );
-        if (!invalidatedByThisMutationDefinition) return;
-
-        // grab the cached query keys for this query
-        const cachedQueryKeys = (await mutationCache.keys()).filter((key) =>
-          key.startsWith(registration.name),
-        ); // keys are namespaced by query name
-
-        // otherwise, define what to invalidate
-        const invalidate = invalidatedByThisMutationDefinition.affects({
-          mutationInput,
-          mutationOutput,
-          mutationStatus,
-          cachedQueryKeys,
-        });
+    const refetches: RemoteStateQueryRefetchRequest[] = [];
+    const failuresOfInvalidations = await Promise.all(
+      registrations.map((registration) =>
+        runTriggersOfQuery({
+          query: registration.name,
+          registration,
+          type: RemoteStateQueryTriggerType.INVALIDATION,
+          phase: mutationPhase,
+          cause,
+          cache: mutationCache,
+          run: async () => {
+            // if invalidated by wasn't defined, do nothing
+            if (!registration.options.invalidatedBy) return;
 
-        // execute the invalidations
-        if (invalidate.keys)
-          await Promise.all(
-            invalidate.keys.map((forKey) =>
-              registration.query.invalidate({ forKey, cache: mutationCache }),
-            ),
-          );
-        if (invalidate.inputs)
-          await Promise.all(
-            invalidate.inputs.map((forInput) =>
-              registration.query.invalidate({ forInput }),
-            ),
+            // if invalidated by wasn't defined for this mutation, do nothing
+            const invalidatedByThisMutationDefinitions =
+              registration.options.invalidatedBy.filter(isTriggeredInThisPhase);
+            if (!invalidatedByThisMutationDefinitions.length) return;
+
+            // grab the cached query keys and inputs for this query
+            const { cachedQueryKeys, cachedQueryInputs } =
+              await getCachedQueryEntries({ registration });
+
+            // otherwise, define what each trigger for this mutation affects, in the order they were added
+            const affectedByDefinition =
+              invalidatedByThisMutationDefinitions.map((definition) => {
+                const affected = getAffectedEntriesOfTrigger({
+                  selection: definition.affects({
+                    mutationInput,
+                    mutationOutput,
+                    mutationStatus,
+                    mutationPhase,
+                    cachedQueryKeys,
+                    cachedQueryInputs,
+                  }),
+                  cachedQueryInputs,
+                });
+                emit(RemoteStateCacheEventType.TRIGGER_FIRED, {
+                  query: registration.name,
+                  type: RemoteStateQueryTriggerType.INVALIDATION,
+                  mutation: cause,
+                  affected,
+                });
+                return {
+                  affected,
+                  strategy: registration.options.staleWhileRevalidate
+                    ? definition.strategy ??
+                      RemoteStateQueryInvalidationStrategy.DELETE
+                    : RemoteStateQueryInvalidationStrategy.DELETE, // entries can only be marked stale if the query revalidates stale entries
+                  refetch: definition.refetch,
+                };
+              });
+
+            // define what to mark stale and what to invalidate, merged across every trigger for this mutation
+            const getAffectedEntriesForStrategy = (
+              strategy: RemoteStateQueryInvalidationStrategy,
+            ) =>
+              mergeAffectedEntriesOfTriggers({
+                affected: affectedByDefinition
+                  .filter((definition) => definition.strategy === strategy)
+                  .map(({ affected }) => affected),
+                serializeKey: registration.options.serialize.key,
+              });
+            const markStale = getAffectedEntriesForStrategy(
+              RemoteStateQueryInvalidationStrategy.MARK_STALE,
+            );
+            const invalidate = getAffectedEntriesForStrategy(
+              RemoteStateQueryInvalidationStrategy.DELETE,
+            );
+
+            // mark the stale entries first, so that if any trigger also deletes an entry, the delete wins
+            await Promise.all(
+              [
+                ...markStale.keys.map((forKey) => ({
+                  cache: mutationCache,
+                  key: forKey,
+                  input:
+                    cachedQueryInputs.find(({ key }) => key === forKey)
+                      ?.input ?? null,
+                })),
+                ...markStale.inputs.map((forInput) => ({
+                  cache: getCacheForInput({ forInput }),
+                  key: registration.options.serialize.key({ forInput }),
+                  input: forInput,
+                })),
+              ].map(async (target) => {
+                registration.dropExecutionsInFlight({ forKey: target.key });
+                await setStaleAtToIndex({
+                  cache: target.cache,
+                  key: target.key,
+                  staleAt: Date.now(),
+                  secondsUntilExpiration:
+                    registration.options.secondsUntilExpiration,
+                });
+                emit(RemoteStateCacheEventType.INVALIDATE, {
+                  query: registration.name,
+                  key: target.key,
+                  input: target.input,
+                  mutation: cause,
+                });
+              }),
+            );
+
+            // execute the invalidations
+            await Promise.all(
+              invalidate.keys.map(async (forKey) => {
+                keysInvalidated.add(forKey);
+                registration.dropExecutionsInFlight({ forKey });
+                await registration.query.invalidate({
+                  forKey,
+                  cache: mutationCache,
+                });
+                emit(RemoteStateCacheEventType.INVALIDATE, {
+                  query: registration.name,
+                  key: forKey,
+                  input:
+                    cachedQueryInputs.find(({ key }) => key === forKey)
+                      ?.input ?? null,
+                  mutation: cause,
+                });
+              }),
+            );
+            await Promise.all(
+              invalidate.inputs.map(async (forInput) => {
+                keysInvalidated.add(
+                  registration.options.serialize.key({ forInput }),
+                );
+                registration.dropExecutionsInFlight({
+                  forKey: registration.options.serialize.key({ forInput }),
+                });
+                await registration.query.invalidate({ forInput });
+                emit(RemoteStateCacheEventType.INVALIDATE, {
+                  query: registration.name,
+                  key: registration.options.serialize.key({ forInput }),
+                  input: forInput,
+                  mutation: cause,
+                });
+              }),
+            );
+
+            // track the invalidated entries of each trigger which asked to refetch them, to refetch once the mutation has completed
+            affectedByDefinition.forEach(({ affected, refetch }) => {
+              if (!refetch) return;
+              refetches.push({
+                registration,
+                refetch,
+                inputs: [
+                  ...affected.inputs,
+                  ...affected.keys
+                    .map(
+                      (forKey) =>
+                        cachedQueryInputs.find(({ key }) => key === forKey)
+                          ?.input,
+                    )
+                    .filter(isPresent), // only keys whose original input is known can be refetched
+                ],
+              });
+            });
+          },
+        }),
+      ),
+    );
+
+    // for each tag the mutation touches, invalidate every entry which carries it
+    const touchedTags =
+      mutationRegistration?.options.touches?.({
+        mutationInput,
+        mutationOutput,
+        mutationStatus,
+        mutationPhase,
+      }) ?? [];
+    const failuresOfTags = await Promise.all(
+      [...new Set(touchedTags)].map(async (tag) => {
+        const entries: RemoteStateCacheTaggedEntry[] = [];
+        const failuresOfTagIndex = await runTriggersOfQuery({
+          query: null, // the entries of the tag, and so the queries they belong to, are not known until the tag index is read
+          type: RemoteStateQueryTriggerType.INVALIDATION,
+          phase: mutationPhase,
+          cause,
+          cache: mutationCache,
+          run: async () => {
+            entries.push(
+              ...(await getEntriesFromTagIndex({
+                cache: mutationCache,
+                tag: getTagNamespaced(tag),
+              })),
+            );
+          },
+        });
+        const failuresOfEntries = await Promise.all(
+          entries.map((entry) =>
+            runTriggersOfQuery({
+              query: entry.query,
+              registration: context.registered.queries[entry.query],
+              type: RemoteStateQueryTriggerType.INVALIDATION,
+              phase: mutationPhase,
+              cause,
+              cache: mutationCache,
+              run: async () => {
+                keysInvalidated.add(entry.key);
+                context.registered.queries[entry.query]?.dropExecutionsInFlight(
+                  {
+                    forKey: entry.key,
+                  },
+                );
+                await mutationCache.set(entry.key, undefined); // note: invalidate directly, since the query which produced the entry may not be registered in this context
+                emit(RemoteStateCacheEventType.INVALIDATE, {
+                  query: entry.query,
+                  key: entry.key,
+                  input: null,
+                  mutation: cause,
+                });
+              },
+            }),
+          ),
+        );
+        await removeEntriesFromTagIndex({
+          cache: mutationCache,
+          tag: getTagNamespaced(tag),
+          entries,
+        }).catch((error) => {
+          logger.warn(
+            'a remote-state mutation failed to remove the entries it invalidated from the tag index of a tag it touched. ignoring it, since they were already invalidated',
+            { mutation: mutationName, tag, error },
           );
+        });
+        return [...failuresOfTagIndex, ...failuresOfEntries.flat()];
       }),
     );
 
     // for each registered query, handle updates if needed
-    await Promise.all(
-      registrations.map(async (registration) => {
-        // if updated by wasn't defined, do nothing
-        if (!registration.options.updatedBy) return;
-
-        // if updated by wasn't defined for this mutation, do nothing
-        const updatedByThisMutationDefinition =
-          registration.options.updatedBy.find(
-            (definition) => definition.mutation.name === mutationName,
-          );
-        if (!updatedByThisMutationDefinition) return;
-
-        // grab the cached query keys for this query
-        const cachedQueryKeys = (await mutationCache.keys()).filter((key) =>
-          key.startsWith(registration.name),
-        ); // keys are namespaced by query name
-
-        // otherwise, define what to update
-        const affected = updatedByThisMutationDefinition.affects({
-          mutationInput,
-          mutationOutput,
-          mutationStatus,
-          cachedQueryKeys,
-        });
+    const failuresOfUpdates = await Promise.all(
+      registrations.map((registration) =>
+        runTriggersOfQuery({
+          query: registration.name,
+          registration,
+          type: RemoteStateQueryTriggerType.UPDATE,
+          phase: mutationPhase,
+          cause,
+          cache: mutationCache,
+          run: async () => {
+            // if updated by wasn't defined, do nothing
+            if (!registration.options.updatedBy) return;
 
-        // define the function that will be used to update the cache with
-        const toValue: (args: { fromCachedOutput: LI | undefined }) => LO = ({
-          fromCachedOutput,
-        }) =>
-          fromCachedOutput // only run the update if the cache is still valid for this key; otherwise, it shouldn't have been called; i.e., sheild the trigger function from invalidated, undefined, cache values
-            ? updatedByThisMutationDefinition.update({
-                from: {
-                  cachedQueryOutput: Promise.resolve(fromCachedOutput), // ensure to wrap it in a promise, so that even if a sync cache is used, the result is consistent w/ output type
-                },
-                with: {
+            // if updated by wasn't defined for this mutation, do nothing
+            const updatedByThisMutationDefinitions =
+              registration.options.updatedBy.filter(isTriggeredInThisPhase);
+            if (!updatedByThisMutationDefinitions.length) return;
+
+            // grab the cached query keys and inputs for this query, excluding those this mutation invalidated already
+            const cachedQueryEntries = await getCachedQueryEntries({
+              registration,
+            });
+            const cachedQueryKeys = cachedQueryEntries.cachedQueryKeys.filter(
+              (key) => !keysInvalidated.has(key),
+            );
+            const cachedQueryInputs =
+              cachedQueryEntries.cachedQueryInputs.filter(
+                ({ key }) => !keysInvalidated.has(key),
+              );
+
+            // run each trigger for this mutation, one after another in the order they were added, so that updates to the same key compose predictably
+            await updatedByThisMutationDefinitions.reduce(
+              async (previous, updatedByThisMutationDefinition) => {
+                await previous;
+
+                // define what to update
+                const affected = getAffectedEntriesOfTrigger({
+                  selection: updatedByThisMutationDefinition.affects({
+                    mutationInput,
+                    mutationOutput,
+                    mutationStatus,
+                    mutationPhase,
+                    cachedQueryKeys,
+                    cachedQueryInputs,
+                  }),
+                  cachedQueryInputs,
+                });
+                emit(RemoteStateCacheEventType.TRIGGER_FIRED, {
+                  query: registration.name,
+                  type: RemoteStateQueryTriggerType.UPDATE,
+                  mutation: cause,
+                  affected,
+                });
+
+                // define the function that will be used to update the cache with, for each key
+                const keysFailedValidation = new Set<string>();
+                const getToValue =
+                  ({ key, input }: { key: string; input: any[] | null }) =>
+                  async ({
+                    fromCachedOutput,
+                  }: {
+                    fromCachedOutput: LI | undefined;
+                  }): Promise<LO | undefined> => {
+                    // only run the update if the cache is still valid for this key; otherwise, it shouldn't have been called; i.e., sheild the trigger function from invalidated, undefined, cache values
+                    if (!fromCachedOutput) return undefined;
+
+                    // only run the update if the cached output still passes the validator of the query; otherwise, invalidate it, since the update would be computed from an output of the wrong shape
+                    const validationError = registration.options.validator
+                      ? await getValidationErrorOfOutput({
+                          validator: registration.options.validator,
+                          output: fromCachedOutput,
+                        })
+                      : null;
+                    if (validationError) {
+                      keysFailedValidation.add(key);
+                      emit(RemoteStateCacheEventType.VALIDATION_FAILED, {
+                        query: registration.name,
+                        key,
+                        input,
+                        mutation: cause,
+                        error: validationError,
+                      });
+                      return undefined;
+                    }
+
+                    // run the update
+                    return updatedByThisMutationDefinition.update({
+                      from: {
+                        cachedQueryOutput: Promise.resolve(fromCachedOutput), // ensure to wrap it in a promise, so that even if a sync cache is used, the result is consistent w/ output type
+                      },
+                      with: {
+                        mutationInput,
+                        mutationOutput,
+                        mutationStatus,
+                        mutationPhase,
+                      },
+                    });
+                  };
+
+                // execute the updates
+                await Promise.all(
+                  affected.keys.map(async (forKey) => {
+                    const input =
+                      cachedQueryInputs.find(({ key }) => key === forKey)
+                        ?.input ?? null;
+                    await registration.query.update({
+                      forKey,
+                      cache: mutationCache,
+                      toValue: getToValue({ key: forKey, input }),
+                    });
+                    emit(
+                      keysFailedValidation.has(forKey)
+                        ? RemoteStateCacheEventType.INVALIDATE
+                        : RemoteStateCacheEventType.UPDATE,
+                      {
+                        query: registration.name,
+                        key: forKey,
+                        input,
+                        mutation: cause,
+                      },
+                    );
+                  }),
+                );
+                await Promise.all(
+                  affected.inputs.map(async (forInput) => {
+                    const key = registration.options.serialize.key({
+                      forInput,
+                    });
+                    await registration.query.update({
+                      forInput,
+                      toValue: getToValue({ key, input: forInput }),
+                    });
+                    emit(
+                      keysFailedValidation.has(key)
+                        ? RemoteStateCacheEventType.INVALIDATE
+                        : RemoteStateCacheEventType.UPDATE,
+                      {
+                        query: registration.name,
+                        key,
+                        input: forInput,
+                        mutation: cause,
+                      },
+                    );
+                  }),
+                );
+              },
+              Promise.resolve(),
+            );
+          },
+        }),
+      ),
+    );
+
+    // for each registered query, seed the outputs the mutation resolved, if needed
+    const failuresOfSeeds = await Promise.all(
+      registrations.map((registration) =>
+        runTriggersOfQuery({
+          query: registration.name,
+          registration,
+          type: RemoteStateQueryTriggerType.SEED,
+          phase: mutationPhase,
+          cause,
+          cache: mutationCache,
+          run: async () => {
+            // if the mutation has not resolved, do nothing, since seeds are computed from its output
+            if (mutationPhase !== MutationExecutionPhase.AFTER_RESOLVE) return;
+
+            // if seeded by wasn't defined for this mutation, do nothing
+            const seededByThisMutationDefinitions = (
+              registration.options.seededBy ?? []
+            ).filter((definition) => definition.mutation.name === mutationName);
+            if (!seededByThisMutationDefinitions.length) return;
+
+            // run each trigger for this mutation, one after another in the order they were added, so that seeds of the same key resolve predictably
+            await seededByThisMutationDefinitions.reduce(
+              async (previous, definition) => {
+                await previous;
+
+                // define what to seed
+                const seeds = definition.seeds({
                   mutationInput,
-                  mutationOutput,
-                  mutationStatus,
-                },
-              })
-            : undefined;
-
-        // execute the updates
-        if (affected.keys)
-          await Promise.all(
-            affected.keys.map((forKey) =>
-              registration.query.update({
-                forKey,
-                cache: mutationCache,
-                toValue,
+                  mutationOutput: mutationOutput as Awaited<ReturnType<M>>,
+                });
+                emit(RemoteStateCacheEventType.TRIGGER_FIRED, {
+                  query: registration.name,
+                  type: RemoteStateQueryTriggerType.SEED,
+                  mutation: cause,
+                  affected: {
+                    keys: [],
+                    inputs: seeds.map(({ forInput }) => forInput),
+                  },
+                });
+
+                // execute the seeds
+                await Promise.all(
+                  seeds.map(async ({ forInput, output }) => {
+                    await registration.seed({ forInput, output });
+                    emit(RemoteStateCacheEventType.UPDATE, {
+                      query: registration.name,
+                      key: registration.options.serialize.key({ forInput }),
+                      input: forInput,
+                      mutation: cause,
+                    });
+                  }),
+                );
+              },
+              Promise.resolve(),
+            );
+          },
+        }),
+      ),
+    );
+    const failures = [
+      ...failuresOfInvalidations,
+      ...failuresOfTags,
+      ...failuresOfUpdates,
+      ...failuresOfSeeds,
+    ].flat();
+
+    // refetch the invalidated entries which asked for it, once the mutation has completed, since refetching before it would read the state it is about to change
+    if (mutationPhase === MutationExecutionPhase.BEFORE)
+      return { refetchesDeferred: refetches, failures };
+    await Promise.all(
+      [...refetchesDeferred, ...refetches].map(
+        async ({ registration, refetch, inputs }) => {
+          const refetching = mapWithConcurrencyLimit({
+            items: inputs,
+            limit: refetch.concurrency ?? DEFAULT_REFETCH_CONCURRENCY,
+            map: (forInput) =>
+              registration.refetch({ forInput }).catch((error) => {
+                logger.warn(
+                  'a remote-state query failed to refetch an entry invalidated by a mutation. ignoring it, since the entry is still invalidated and will be fetched on next query',
+                  { query: registration.name, input: forInput, error },
+                );
               }),
-            ),
-          );
-        if (affected.inputs)
-          await Promise.all(
-            affected.inputs.map((forInput) =>
-              registration.query.update({ forInput, toValue }),
-            ),
-          );
-      }),
+          });
+          if (refetch.mode === RemoteStateQueryRefetchMode.AWAITED)
+            await refetching;
+        },
+      ),
+    );
+    return { refetchesDeferred: [], failures };
+  };
+
+  /**
+   * define a method which optimistically updates the cached outputs of queries before a mutation runs, and returns how to settle those updates once it completes
+   *
+   * note
+   * - the raw cached value of each affected key is snapshot once, before its first update, so that it can be restored exactly if the mutation rejects
+   * - every trigger which updated a key settles it, so that each of their `reconcile` and `onReject` options are respected
+   */
+  const onMutationOptimisticUpdate = async <
+    LI,
+    LO,
+    M extends (...args: any) => any,
+  >({
+    mutationName,
+    mutationInput,
+  }: {
+    mutationName: string;
+    mutationInput: Parameters<M>;
+  }): Promise<{
+    rollback: () => Promise<RemoteStateTriggerFailure[]>;
+    reconcile: (args: {
+      mutationOutput: Awaited<ReturnType<M>>;
+    }) => Promise<RemoteStateTriggerFailure[]>;
+    failures: RemoteStateTriggerFailure[];
+  }> => {
+    const registrations = Object.values(context.registered.queries);
+
+    // define the mutation which caused any events emitted
+    const cause: RemoteStateCacheEventMutationCause = {
+      name: mutationName,
+      input: mutationInput,
+      output: null,
+      status: MutationExecutionStatus.PENDING,
+    };
+
+    // define the cache from mutation input, if needed
+    const mutationCache = getCacheForInput({ forInput: mutationInput });
+    const getCachedQueryEntries = getCachedQueryEntriesLoader({
+      cache: mutationCache,
+    });
+
+    // track each optimistically updated entry, with the raw value and expiry it had before and the triggers which updated it, so that it can be settled later
+    const updatedEntries: {
+      registration: RemoteStateCacheContextQueryRegistration<any, any>;
+      triggers: RemoteStateQueryOptimisticUpdateTrigger<any, M>[];
+      cache: RemoteStateCache;
+      key: string;
+      input: any[] | null;
+      valueBefore: string | undefined;
+      expiresAtBefore: number | undefined;
+    }[] = [];
+
+    // for each registered query, handle optimistic updates if needed
+    const failuresOfUpdates = await Promise.all(
+      registrations.map((registration) =>
+        runTriggersOfQuery({
+          query: registration.name,
+          registration,
+          type: RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE,
+          phase: MutationExecutionPhase.BEFORE,
+          cause,
+          cache: mutationCache,
+          run: async () => {
+            // if optimistically updated by wasn't defined for this mutation, do nothing
+            const optimisticallyUpdatedByThisMutationDefinitions = (
+              registration.options.optimisticallyUpdatedBy ?? []
+            ).filter((definition) => definition.mutation.name === mutationName);
+            if (!optimisticallyUpdatedByThisMutationDefinitions.length) return;
+
+            // grab the cached query keys and inputs for this query
+            const { cachedQueryKeys, cachedQueryInputs } =
+              await getCachedQueryEntries({ registration });
+
+            // run each trigger for this mutation, one after another in the order they were added, so that updates to the same key compose predictably
+            await optimisticallyUpdatedByThisMutationDefinitions.reduce(
+              async (previous, definition) => {
+                await previous;
+
+                // define what to update
+                const affected = getAffectedEntriesOfTrigger({
+                  selection: definition.affects({
+                    mutationInput,
+                    cachedQueryKeys,
+                    cachedQueryInputs,
+                  }),
+                  cachedQueryInputs,
+                });
+                emit(RemoteStateCacheEventType.TRIGGER_FIRED, {
+                  query: registration.name,
+                  type: RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE,
+                  mutation: cause,
+                  affected,
+                });
+
+                // define the function that will be used to update the cache with
+                const toValue: (args: {
+                  fromCachedOutput: LI | undefined;
+                }) => LO = ({ fromCachedOutput }) =>
+                  fromCachedOutput // only run the update if the cache is still valid for this key
+                    ? definition.update({
+                        from: {
+                          cachedQueryOutput: Promise.resolve(fromCachedOutput), // ensure to wrap it in a promise, so that even if a sync cache is used, the result is consistent w/ output type
+                        },
+                        with: { mutationInput },
+                      })
+                    : undefined;
+
+                // define the targets to update, each with the cache it lives in
+                const targets = [
+                  ...affected.keys.map((forKey) => ({
+                    cache: mutationCache,
+                    key: forKey,
+                    input:
+                      cachedQueryInputs.find(({ key }) => key === forKey)
+                        ?.input ?? null,
+                  })),
+                  ...affected.inputs.map((forInput) => ({
+                    cache: getCacheForInput({ forInput }),
+                    key: registration.options.serialize.key({ forInput }),
+                    input: forInput,
+                  })),
+                ].filter(
+                  (target, index, all) =>
+                    all.findIndex(
+                      (other) =>
+                        other.cache === target.cache &&
+                        other.key === target.key,
+                    ) === index,
+                ); // update each key only once per trigger, even if it was selected both by key and by input
+
+                // snapshot and then execute the updates
+                await Promise.all(
+                  targets.map(async (target) => {
+                    const snapshot = updatedEntries.find(
+                      (entry) =>
+                        entry.cache === target.cache &&
+                        entry.key === target.key,
+                    ); // only the value from before the first optimistic update is worth restoring
+                    if (snapshot) snapshot.triggers.push(definition);
+                    else
+                      updatedEntries.push({
+                        ...target,
+                        registration,
+                        triggers: [definition],
+                        valueBefore: await target.cache.get(target.key),
+                        expiresAtBefore: await getExpiresAtFromIndex({
+                          cache: target.cache,
+                          key: target.key,
+                        }),
+                      });
+                    registration.dropExecutionsInFlight({ forKey: target.key }); // executions in flight read the state from before the update, so they must not overwrite it
+                    await registration.query.update({
+                      forKey: target.key,
+                      cache: target.cache,
+                      toValue,
+                    });
+                    emit(RemoteStateCacheEventType.UPDATE, {
+                      query: registration.name,
+                      key: target.key,
+                      input: target.input,
+                      mutation: cause,
+                    });
+                  }),
+                );
+              },
+              Promise.resolve(),
+            );
+          },
+        }),
+      ),
     );
+
+    // define how to roll back the optimistic updates, if the mutation rejects
+    const rollback = async () => {
+      const rejectedCause: RemoteStateCacheEventMutationCause = {
+        ...cause,
+        status: MutationExecutionStatus.REJECTED,
+      };
+      const failuresOfRollbacks = await Promise.all(
+        updatedEntries.map((entry) =>
+          runTriggersOfQuery({
+            query: entry.registration.name,
+            registration: entry.registration,
+            type: RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE,
+            phase: MutationExecutionPhase.AFTER_REJECT,
+            cause: rejectedCause,
+            cache: entry.cache,
+            run: async () => {
+              entry.registration.dropExecutionsInFlight({ forKey: entry.key }); // executions in flight read the optimistic state, so they must not overwrite the rollback
+              const secondsUntilExpiration =
+                entry.expiresAtBefore === undefined
+                  ? entry.registration.options.secondsUntilExpiration
+                  : (entry.expiresAtBefore - Date.now()) / 1000; // restore the value with the expiry it had left, rather than extend it
+              const isRestorable =
+                entry.valueBefore !== undefined &&
+                (secondsUntilExpiration === undefined ||
+                  secondsUntilExpiration > 0) &&
+                entry.triggers.every(
+                  (trigger) =>
+                    (trigger.onReject ??
+                      RemoteStateQueryOptimisticRollbackStrategy.RESTORE) ===
+                    RemoteStateQueryOptimisticRollbackStrategy.RESTORE,
+                ); // any trigger which asks to invalidate on reject wins, since restoring would discard its choice
+              if (!isRestorable) {
+                await entry.cache.set(entry.key, undefined);
+                emit(RemoteStateCacheEventType.INVALIDATE, {
+                  query: entry.registration.name,
+                  key: entry.key,
+                  input: entry.input,
+                  mutation: rejectedCause,
+                });
+                return;
+              }
+              await entry.cache.set(entry.key, entry.valueBefore, {
+                secondsUntilExpiration,
+              });
+              emit(RemoteStateCacheEventType.UPDATE, {
+                query: entry.registration.name,
+                key: entry.key,
+                input: entry.input,
+                mutation: rejectedCause,
+              });
+            },
+          }),
+        ),
+      );
+      return failuresOfRollbacks.flat();
+    };
+
+    // define how to reconcile the optimistic updates with the real output, if the mutation resolves
+    const reconcile = async ({
+      mutationOutput,
+    }: {
+      mutationOutput: Awaited<ReturnType<M>>;
+    }) => {
+      const resolvedCause: RemoteStateCacheEventMutationCause = {
+        ...cause,
+        output: mutationOutput,
+        status: MutationExecutionStatus.RESOLVED,
+      };
+      const failuresOfReconciles = await Promise.all(
+        updatedEntries.map((entry) =>
+          runTriggersOfQuery({
+            query: entry.registration.name,
+            registration: entry.registration,
+            type: RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE,
+            phase: MutationExecutionPhase.AFTER_RESOLVE,
+            cause: resolvedCause,
+            cache: entry.cache,
+            run: async () => {
+              entry.registration.dropExecutionsInFlight({ forKey: entry.key }); // executions in flight read the optimistic state, so they must not overwrite the reconciled one
+
+              // if any trigger which updated the key does not specify how to reconcile, invalidate the optimistic value so that the real state is fetched on next query
+              const reconcileDefinitions = entry.triggers.map(
+                (trigger) => trigger.reconcile,
+              );
+              if (
+                !reconcileDefinitions.every(
+                  (
+                    reconcileDefinition,
+                  ): reconcileDefinition is NonNullable<
+                    typeof reconcileDefinition
+                  > => !!reconcileDefinition,
+                )
+              ) {
+                await entry.registration.query.invalidate({
+                  forKey: entry.key,
+                  cache: entry.cache,
+                });
+                emit(RemoteStateCacheEventType.INVALIDATE, {
+                  query: entry.registration.name,
+                  key: entry.key,
+                  input: entry.input,
+                  mutation: resolvedCause,
+                });
+                return;
+              }
+
+              // otherwise, reconcile the optimistic value with the real output, once per trigger in the order they updated it
+              await reconcileDefinitions.reduce(
+                async (previous, reconcileDefinition) => {
+                  await previous;
+                  await entry.registration.query.update({
+                    forKey: entry.key,
+                    cache: entry.cache,
+                    toValue: ({
+                      fromCachedOutput,
+                    }: {
+                      fromCachedOutput: LI | undefined;
+                    }) =>
+                      fromCachedOutput
+                        ? reconcileDefinition({
+                            from: {
+                              cachedQueryOutput:
+                                Promise.resolve(fromCachedOutput),
+                            },
+                            with: { mutationInput, mutationOutput },
+                          })
+                        : undefined,
+                  });
+                },
+                Promise.resolve(),
+              );
+              emit(RemoteStateCacheEventType.UPDATE, {
+                query: entry.registration.name,
+                key: entry.key,
+                input: entry.input,
+                mutation: resolvedCause,
+              });
+            },
+          }),
+        ),
+      );
+      return failuresOfReconciles.flat();
+    };
+
+    return { rollback, reconcile, failures: failuresOfUpdates.flat() };
   };
 
   /**
@@ -502,7 +2253,7 @@ export const createRemoteStateCachingContext = <
     L extends (...args: any[]) => any,
   >(
     logic: L,
-    options: WithRemoteStateCachingOptions,
+    options: WithRemoteStateMutationRegistrationOptions<L>,
   ): MutationWithRemoteStateRegistration<L> => {
     // define the mutation name
     const mutationName = extractNameFromRegistrationInputs({
@@ -515,42 +2266,409 @@ export const createRemoteStateCachingContext = <
     const execute: L = (async (
       ...args: Parameters<L>
     ): Promise<ReturnType<L>> => {
-      try {
-        // invalidate accessible cache entries before the mutation runs, in case the runtime is ungracefully terminated during logic
-        await onMutationInput({
-          mutationName,
-          mutationInput: args,
-          mutationOutput: null,
-          mutationStatus: MutationExecutionStatus.RESOLVED,
-        });
+      let refetchesDeferred: RemoteStateQueryRefetchRequest[] = [];
+      let optimisticUpdate: Awaited<
+        ReturnType<typeof onMutationOptimisticUpdate<any, any, L>>
+      > | null = null;
+      const failures: RemoteStateTriggerFailure[] = [];
+      const result = await (async () => {
+        try {
+          // invalidate accessible cache entries before the mutation runs, in case the runtime is ungracefully terminated during logic
+          const onInput = await onMutationInput({
+            mutationName,
+            mutationInput: args,
+            mutationOutput: null,
+            mutationStatus: MutationExecutionStatus.PENDING,
+          });
+          refetchesDeferred = onInput.refetchesDeferred;
+          failures.push(...onInput.failures);
 
-        // execute the logic
-        const result = (await logic(...args)) as ReturnType<L>;
+          // optimistically update accessible cache entries before the mutation runs, so that reads reflect the write immediately
+          optimisticUpdate = await onMutationOptimisticUpdate<any, any, L>({
+            mutationName,
+            mutationInput: args,
+          });
+          failures.push(...optimisticUpdate.failures);
 
-        // invalidate accessible cache entries now that the mutation has completed with success
-        await onMutationOutput({
-          mutationName,
-          mutationInput: args,
-          mutationOutput: result,
-          mutationStatus: MutationExecutionStatus.RESOLVED,
-        });
+          // if the cache could not be prepared for the mutation, do not run it
+          if (failures.length)
+            throw new TriggerExecutionError({
+              mutation: {
+                name: mutationName,
+                input: args,
+                output: null,
+                status: MutationExecutionStatus.PENDING,
+              },
+              failures,
+            });
 
-        // return the original result
-        return result;
-      } catch (error) {
-        // invalidate accessible cache entries now that the mutation has completed with rejection
-        await onMutationOutput({
-          mutationName,
-          mutationInput: args,
-          mutationOutput: null,
-          mutationStatus: MutationExecutionStatus.REJECTED,
+          // execute the logic
+          return (await logic(...args)) as ReturnType<L>;
+        } catch (error) {
+          // roll back the optimistically updated cache entries, since the write they anticipated did not happen
+          const failuresAfterReject = [
+            ...((await optimisticUpdate?.rollback()) ?? []),
+          ];
+
+          // invalidate accessible cache entries now that the mutation has completed with rejection
+          const onOutput = await onMutationOutput({
+            mutationName,
+            mutationInput: args,
+            mutationOutput: null,
+            mutationStatus: MutationExecutionStatus.REJECTED,
+            refetchesDeferred,
+          });
+          failuresAfterReject.push(...onOutput.failures);
+
+          // throw the original error, logging the failures of the triggers instead of replacing it with them
+          if (failuresAfterReject.length)
+            logger.warn(
+              'remote-state triggers failed after a mutation rejected. throwing the error of the mutation, instead of theirs',
+              new TriggerExecutionError({
+                mutation: {
+                  name: mutationName,
+                  input: args,
+                  output: null,
+                  status: MutationExecutionStatus.REJECTED,
+                },
+                failures: failuresAfterReject,
+              }),
+            );
+          throw error;
+        }
+      })();
+
+      // reconcile the optimistically updated cache entries with the real output
+      failures.push(
+        ...(await optimisticUpdate!.reconcile({
+          mutationOutput: result as Awaited<ReturnType<L>>,
+        })),
+      );
+
+      // invalidate accessible cache entries now that the mutation has completed with success
+      const onOutput = await onMutationOutput({
+        mutationName,
+        mutationInput: args,
+        mutationOutput: result,
+        mutationStatus: MutationExecutionStatus.RESOLVED,
+        refetchesDeferred,
+      });
+      failures.push(...onOutput.failures);
+
+      // throw the failures of the triggers, if any, distinctly from an error of the mutation itself, since the write did happen
+      if (failures.length)
+        throw new TriggerExecutionError({
+          mutation: {
+            name: mutationName,
+            input: args,
+            output: result,
+            status: MutationExecutionStatus.RESOLVED,
+          },
+          failures,
         });
-        throw error;
-      }
+
+      // return the original result
+      return result;
     }) as L;
 
+    // register this mutation
+    const mutation: MutationWithRemoteStateRegistration<L> = {
+      execute,
+      name: mutationName,
+    };
+    registerMutationToRemoteStateContext({
+      registration: { name: mutationName, mutation, options },
+    });
+
     // return the extended logic
-    return { execute, name: mutationName };
+    return mutation;
+  };
+
+  /**
+   * define the read-only registry, to expose what was registered to the context
+   */
+  const registry = createRemoteStateCacheContextRegistry({ context });
+
+  /**
+   * define a method which describes the graph of triggers between the queries and mutations of the context
+   */
+  const describe = ({
+    format = RemoteStateCacheContextGraphFormat.JSON,
+  }: { format?: RemoteStateCacheContextGraphFormat } = {}) =>
+    describeRemoteStateCacheContextGraph({ registry, format });
+
+  /**
+   * define a method which gets the cache of the context, for the operations which must enumerate its keys
+   */
+  const getCacheToEnumerate = (): C => {
+    if (isAFunction(cache))
+      throw new BadRequestError(
+        'can not enumerate the keys of the cache of this context, since it is extracted from the input of each operation',
+      );
+    return cache;
+  };
+
+  /**
+   * define a method which lists the cached keys of the versions of queries which are no longer registered, within the namespace of the context
+   *
+   * relevance
+   * - the keys of previous versions are never read again, so they only take up space until they expire
+   *
+   * note
+   * - by default, only the keys of the queries registered to this context are listed, since other contexts which share the namespace may register other queries
+   * - the keys of queries which are not registered at all can only be listed by a context with a namespace, since without one, the keys of every other app which shares the cache look like the keys of its queries
+   */
+  const getKeysOfUnregisteredVersions = async ({
+    includeQueriesNotRegistered = false,
+  }: {
+    /**
+     * whether to also list the keys of queries which are not registered to this context at all
+     *
+     * note
+     * - requires the context to have a namespace
+     */
+    includeQueriesNotRegistered?: boolean;
+  } = {}): Promise<string[]> => {
+    if (includeQueriesNotRegistered && !namespace.length)
+      throw new BadRequestError(
+        'can not include the keys of queries which are not registered, since this context has no namespace. without one, the keys of every other app which shares the cache would be included too. specify a namespace for the context first',
+      );
+    const keys = await getCacheToEnumerate().keys();
+    return keys.filter((key) => {
+      const parts = keyCodec.parse(key);
+      if (!parts) return false; // not the key of a query, in this namespace
+      const registration = context.registered.queries[parts.query];
+      if (!registration) return includeQueriesNotRegistered;
+      return registration.options.version !== parts.version;
+    });
+  };
+
+  /**
+   * define a method which purges the cached keys of the versions of queries which are no longer registered, within the namespace of the context, along with their indexes
+   */
+  const purgeKeysOfUnregisteredVersions = async ({
+    concurrency = 10,
+    ...args
+  }: Parameters<typeof getKeysOfUnregisteredVersions>[0] & {
+    /**
+     * the maximum number of keys to purge at the same time
+     */
+    concurrency?: number;
+  } = {}): Promise<{ keys: string[] }> => {
+    const cacheToPurge = getCacheToEnumerate();
+    const keys = await getKeysOfUnregisteredVersions(args);
+    await mapWithConcurrencyLimit({
+      items: keys,
+      limit: concurrency,
+      map: async (key) => {
+        await cacheToPurge.set(key, undefined);
+        await cacheToPurge.set(getInputIndexKey({ key }), undefined);
+        await cacheToPurge.set(getFreshnessIndexKey({ key }), undefined);
+        await cacheToPurge.set(getExpirationIndexKey({ key }), undefined);
+        emit(RemoteStateCacheEventType.INVALIDATE, {
+          query: keyCodec.parse(key)!.query,
+          key,
+          input: null,
+          mutation: null,
+        });
+      },
+    });
+    const namespacesPurged = [
+      ...new Set(
+        keys.map((key) => keyCodec.formatQueryNamespace(keyCodec.parse(key)!)),
+      ),
+    ];
+    await Promise.all(
+      namespacesPurged.map((namespacePurged) =>
+        cacheToPurge.set(
+          getKeyIndexKey({ namespace: namespacePurged }),
+          undefined,
+        ),
+      ),
+    );
+    return { keys };
+  };
+
+  /**
+   * define a method which gets the registrations of the queries with the given names, or of every registered query
+   */
+  const getQueryRegistrationsByName = ({
+    names = Object.keys(context.registered.queries),
+  }: {
+    names?: string[];
+  }) =>
+    names.map((name) => {
+      const registration = context.registered.queries[name];
+      if (!registration)
+        throw new BadRequestError(
+          'can not find a query registered to the remote-state caching context with this name',
+          { name, registered: Object.keys(context.registered.queries) },
+        );
+      return registration;
+    });
+
+  /**
+   * define a method which dehydrates the cached entries of queries into a portable snapshot
+   *
+   * relevance
+   * - e.g., to ship the data a server-rendered page read to the cache of the client, or to capture integration test fixtures
+   *
+   * note
+   * - only the entries whose inputs are indexed are included, since their keys can not be serialized again without them (e.g., the inputs of a query which take a cache client)
+   */
+  const dehydrate = async ({
+    queries,
+  }: {
+    /**
+     * the names of the queries whose cached entries to include
+     *
+     * note
+     * - defaults to every query registered to the context
+     */
+    queries?: string[];
+  } = {}): Promise<RemoteStateCacheSnapshot> => {
+    const cacheToDehydrate = getCacheToEnumerate();
+    const getCachedQueryEntries = getCachedQueryEntriesLoader({
+      cache: cacheToDehydrate,
+    });
+    const entriesPerQuery = await Promise.all(
+      getQueryRegistrationsByName({ names: queries }).map(
+        async (registration) => {
+          const { cachedQueryInputs } = await getCachedQueryEntries({
+            registration,
+          });
+          const entries = await Promise.all(
+            cachedQueryInputs.map(
+              async ({
+                key,
+                input,
+              }): Promise<RemoteStateCacheSnapshotEntry | null> => {
+                const value = await cacheToDehydrate.get(key);
+                if (value === undefined) return null; // the entry expired or was invalidated since it was indexed
+                const expiresAt = await getExpiresAtFromIndex({
+                  cache: cacheToDehydrate,
+                  key,
+                });
+                return {
+                  query: registration.name,
+                  version: registration.options.version,
+                  input: JSON.parse(
+                    remoteStateCacheInputCodec.serialize(input),
+                  ), // encoded, so that the types json does not support survive json
+                  value,
+                  expiresAt: expiresAt ?? null,
+                };
+              },
+            ),
+          );
+          return entries.filter(
+            (entry): entry is RemoteStateCacheSnapshotEntry => entry !== null,
+          );
+        },
+      ),
+    );
+    return { entries: entriesPerQuery.flat() };
+  };
+
+  /**
+   * define a method which hydrates a snapshot into the cache of the context, as if each entry had been seeded
+   *
+   * note
+   * - every entry is checked against the registered queries before any is cached, so a snapshot from a different deployment is rejected whole, instead of partially hydrated
+   * - the entries which expired since they were dehydrated are skipped
+   */
+  const hydrate = async ({
+    snapshot,
+  }: {
+    snapshot: RemoteStateCacheSnapshot;
+  }): Promise<{ keys: string[] }> => {
+    // check each entry against the registered queries
+    const entriesToHydrate = await Promise.all(
+      snapshot.entries
+        .filter(
+          (entry) => entry.expiresAt === null || entry.expiresAt > Date.now(),
+        )
+        .map(async (entry) => {
+          const registration = context.registered.queries[entry.query];
+          if (!registration)
+            throw new BadRequestError(
+              'can not hydrate a snapshot entry of a query which is not registered to the remote-state caching context',
+              { query: entry.query },
+            );
+          if (registration.options.version !== entry.version)
+            throw new BadRequestError(
+              'can not hydrate a snapshot entry of a different version of the query than the one registered to the remote-state caching context. was the snapshot dehydrated by a different deployment?',
+              {
+                query: entry.query,
+                version: entry.version,
+                registeredVersion: registration.options.version,
+              },
+            );
+          const input = (() => {
+            try {
+              const decoded: unknown = remoteStateCacheInputCodec.deserialize(
+                JSON.stringify(entry.input),
+              );
+              if (Array.isArray(decoded)) return decoded;
+            } catch (error) {
+              throw new BadRequestError(
+                'can not hydrate a snapshot entry whose input can not be decoded',
+                { query: entry.query, input: entry.input, error },
+              );
+            }
+            throw new BadRequestError(
+              'can not hydrate a snapshot entry whose input is not a list of arguments',
+              { query: entry.query, input: entry.input },
+            );
+          })();
+          const output = await (async () => {
+            try {
+              return await registration.options.deserialize.value!(entry.value);
+            } catch (error) {
+              throw new BadRequestError(
+                'can not hydrate a snapshot entry whose value can not be deserialized by the query',
+                { query: entry.query, input: entry.input, error },
+              );
+            }
+          })();
+          const error = registration.options.validator
+            ? await getValidationErrorOfOutput({
+                validator: registration.options.validator,
+                output,
+              })
+            : null;
+          if (error)
+            throw new BadRequestError(
+              'can not hydrate a snapshot entry whose value does not pass the validator of the query',
+              { query: entry.query, input: entry.input, error },
+            );
+          return { registration, entry, input, output };
+        }),
+    );
+
+    // cache each entry, with the expiration it had when dehydrated
+    return {
+      keys: await Promise.all(
+        entriesToHydrate.map(async ({ registration, entry, input, output }) => {
+          const key = registration.options.serialize.key({ forInput: input });
+          await registration.seed({
+            forInput: input,
+            output,
+            secondsUntilExpiration:
+              entry.expiresAt === null
+                ? registration.options.secondsUntilExpiration
+                : (entry.expiresAt - Date.now()) / 1000,
+          });
+          emit(RemoteStateCacheEventType.UPDATE, {
+            query: registration.name,
+            key,
+            input,
+            mutation: null,
+          });
+          return key;
+        }),
+      ),
+    };
   };
 
   /**
@@ -559,5 +2677,13 @@ export const createRemoteStateCachingContext = <
   return {
     withRemoteStateQueryCaching,
     withRemoteStateMutationRegistration,
+    registry,
+    describe,
+    getKeysOfUnregisteredVersions,
+    purgeKeysOfUnregisteredVersions,
+    dehydrate,
+    hydrate,
+    getStats: stats.getStats,
+    getStatsAsPrometheusText: stats.getStatsAsPrometheusText,
   };
 };
@@ -5,13 +5,15 @@ import {
 } from 'with-simple-caching';
 
 import { RemoteStateCache } from '.';
+import { serializeCanonically } from './serializeCanonically';
 
-export const defaultKeySerializationMethod: KeySerializationMethod<any> = ({
-  forInput,
-}) =>
+/**
+ * serializes an input into a cache key, from a preview of the input and a hash of it
+ */
+const getKeyFromSerializedInput = (serialized: string): string =>
   [
     // display a preview of the request
-    JSON.stringify(forInput)
+    serialized
       .replace(/[{}[\]:]/gi, '_')
       .replace(/[^0-9a-z_]/gi, '')
       .replace(/__+/g, '_')
@@ -20,9 +22,29 @@ export const defaultKeySerializationMethod: KeySerializationMethod<any> = ({
       .replace(/_$/, ''), // stringify + replace all non-alphanumeric input
 
     // add a unique token, from the hashed inputs
-    shajs('sha256').update(JSON.stringify(forInput)).digest('hex'),
+    shajs('sha256').update(serialized).digest('hex'),
   ].join('.');
 
+/**
+ * the default key serialization method, which serializes the input canonically
+ *
+ * note
+ * - equal inputs produce the same key, regardless of the order of their keys, and inputs which differ only in types json does not support (e.g., dates, maps, undefined) produce different keys
+ */
+export const defaultKeySerializationMethod: KeySerializationMethod<any> = ({
+  forInput,
+}) => getKeyFromSerializedInput(serializeCanonically(forInput));
+
+/**
+ * the key serialization method which was the default before keys were serialized canonically
+ *
+ * relevance
+ * - lets caches keyed by it still be read, while rolling out the canonical method
+ */
+export const legacyKeySerializationMethod: KeySerializationMethod<any> = ({
+  forInput,
+}) => getKeyFromSerializedInput(JSON.stringify(forInput));
+
 export const defaultValueSerializationMethod: Required<
   WithSimpleCachingAsyncOptions<any, RemoteStateCache>
 >['serialize']['value'] = (output) => JSON.stringify(output);
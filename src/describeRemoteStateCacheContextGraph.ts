@@ -0,0 +1,217 @@
+import { UnexpectedCodePathError } from '@ehmpathy/error-fns';
+
+import { RemoteStateQueryTriggerType } from './RemoteStateQueryCachingOptions';
+import { RemoteStateCacheContextRegistry } from './createRemoteStateCacheContextRegistry';
+
+/**
+ * enumerates the formats the query/mutation trigger graph can be described in
+ */
+export enum RemoteStateCacheContextGraphFormat {
+  /**
+   * a json document, stable across runs, which is convinient to diff
+   */
+  JSON = 'JSON',
+
+  /**
+   * a mermaid flowchart, which is convinient to embed in markdown
+   */
+  MERMAID = 'MERMAID',
+
+  /**
+   * a graphviz dot file, which is convinient to render with graphviz tooling
+   */
+  DOT = 'DOT',
+}
+
+/**
+ * the graph of triggers between the queries and mutations of a context
+ *
+ * note
+ * - edges point from the mutation which fires the trigger to the query whose cache it affects
+ * - nodes and edges are sorted by code unit, so that the graph is stable across runs and locales
+ * - each edge is listed once, even if several triggers of the same type connect its mutation and query
+ */
+export interface RemoteStateCacheContextGraph {
+  queries: string[];
+  mutations: string[];
+  edges: {
+    mutation: string;
+    query: string;
+    type: RemoteStateQueryTriggerType;
+  }[];
+}
+
+/**
+ * compares two strings by code unit, so that the order does not depend on the locale of the machine
+ */
+const compareByCodeUnit = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+/**
+ * defines the graph of triggers between the queries and mutations registered to a context
+ */
+export const getRemoteStateCacheContextGraph = ({
+  registry,
+}: {
+  registry: RemoteStateCacheContextRegistry;
+}): RemoteStateCacheContextGraph => {
+  const edges = [
+    ...new Map(
+      registry
+        .getTriggers()
+        .map(({ mutation, query, type }) => ({ mutation, query, type }))
+        .map((edge) => [JSON.stringify(edge), edge]),
+    ).values(),
+  ] // dedupe the edges of several triggers between the same mutation and query
+    .sort(
+      (a, b) =>
+        compareByCodeUnit(a.mutation, b.mutation) ||
+        compareByCodeUnit(a.query, b.query) ||
+        compareByCodeUnit(a.type, b.type),
+    );
+  const queries = [
+    ...new Set(registry.getQueries().map((query) => query.name)),
+  ].sort(compareByCodeUnit);
+  const mutations = [
+    ...new Set([
+      ...registry.getMutations().map((mutation) => mutation.name),
+      ...edges.map((edge) => edge.mutation), // include the mutations referenced by triggers, even if they were registered to a different context
+    ]),
+  ].sort(compareByCodeUnit);
+  return { queries, mutations, edges };
+};
+
+/**
+ * defines a node id which is safe to use in mermaid and dot syntax
+ *
+ * note
+ * - each character other than a letter or digit is encoded by its char code, so that distinct names always get distinct ids (e.g., `get.user` and `get_user`)
+ */
+const toNodeId = ({
+  operation,
+  name,
+}: {
+  operation: 'query' | 'mutation';
+  name: string;
+}) =>
+  [
+    operation,
+    name.replace(
+      /[^0-9a-z]/gi,
+      (char) => `_${char.charCodeAt(0).toString(16)}_`,
+    ),
+  ].join('_');
+
+/**
+ * escapes a label, so that it can be quoted in mermaid syntax
+ *
+ * note
+ * - mermaid decodes entity codes within quoted labels, e.g., `#34;` for `"`
+ */
+const toMermaidLabel = (name: string) =>
+  name.replace(/[#"<>]/g, (char) => `#${char.charCodeAt(0)};`);
+
+/**
+ * defines the label to display on an edge of a given trigger type
+ */
+const toEdgeLabel = (type: RemoteStateQueryTriggerType) => {
+  if (type === RemoteStateQueryTriggerType.INVALIDATION) return 'invalidates';
+  if (type === RemoteStateQueryTriggerType.UPDATE) return 'updates';
+  if (type === RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE)
+    return 'optimistically updates';
+  if (type === RemoteStateQueryTriggerType.SEED) return 'seeds';
+  throw new UnexpectedCodePathError('unsupported trigger type', { type });
+};
+
+/**
+ * renders the graph as a mermaid flowchart
+ */
+const toMermaid = (graph: RemoteStateCacheContextGraph): string =>
+  [
+    'flowchart LR',
+    ...graph.mutations.map(
+      (name) =>
+        `  ${toNodeId({ operation: 'mutation', name })}[/"${toMermaidLabel(
+          name,
+        )}"/]`,
+    ),
+    ...graph.queries.map(
+      (name) =>
+        `  ${toNodeId({ operation: 'query', name })}[("${toMermaidLabel(
+          name,
+        )}")]`,
+    ),
+    ...graph.edges.map(
+      (edge) =>
+        `  ${toNodeId({
+          operation: 'mutation',
+          name: edge.mutation,
+        })} -->|${toEdgeLabel(edge.type)}| ${toNodeId({
+          operation: 'query',
+          name: edge.query,
+        })}`,
+    ),
+  ].join('\n');
+
+/**
+ * renders the graph as a graphviz dot file
+ */
+const toDot = (graph: RemoteStateCacheContextGraph): string =>
+  [
+    'digraph remote_state_cache {',
+    '  rankdir=LR;',
+    ...graph.mutations.map(
+      (name) =>
+        `  ${toNodeId({
+          operation: 'mutation',
+          name,
+        })} [label=${JSON.stringify(name)}, shape=parallelogram];`,
+    ),
+    ...graph.queries.map(
+      (name) =>
+        `  ${toNodeId({
+          operation: 'query',
+          name,
+        })} [label=${JSON.stringify(name)}, shape=cylinder];`,
+    ),
+    ...graph.edges.map(
+      (edge) =>
+        `  ${toNodeId({
+          operation: 'mutation',
+          name: edge.mutation,
+        })} -> ${toNodeId({
+          operation: 'query',
+          name: edge.query,
+        })} [label="${toEdgeLabel(edge.type)}"${
+          edge.type === RemoteStateQueryTriggerType.UPDATE ||
+          edge.type === RemoteStateQueryTriggerType.OPTIMISTIC_UPDATE ||
+          edge.type === RemoteStateQueryTriggerType.SEED
+            ? ', style=dashed'
+            : ''
+        }];`,
+    ),
+    '}',
+  ].join('\n');
+
+/**
+ * describes the graph of triggers between the queries and mutations of a context, in the requested format
+ *
+ * relevance
+ * - enables embedding the trigger graph in design reviews
+ * - enables diffing the trigger graph in ci, to catch accidental trigger removals
+ */
+export const describeRemoteStateCacheContextGraph = ({
+  registry,
+  format,
+}: {
+  registry: RemoteStateCacheContextRegistry;
+  format: RemoteStateCacheContextGraphFormat;
+}): string => {
+  const graph = getRemoteStateCacheContextGraph({ registry });
+  if (format === RemoteStateCacheContextGraphFormat.JSON)
+    return JSON.stringify(graph, null, 2);
+  if (format === RemoteStateCacheContextGraphFormat.MERMAID)
+    return toMermaid(graph);
+  if (format === RemoteStateCacheContextGraphFormat.DOT) return toDot(graph);
+  throw new UnexpectedCodePathError('unsupported graph format', { format });
+};
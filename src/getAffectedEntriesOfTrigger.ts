@@ -0,0 +1,59 @@
+import { isAFunction } from 'type-fns';
+import { KeySerializationMethod } from 'with-simple-caching';
+
+import { RemoteStateCacheInputEntry } from './RemoteStateCacheInputIndex';
+import { RemoteStateQueryAffectedSelection } from './RemoteStateQueryCachingOptions';
+
+/**
+ * resolves the selection a trigger declared as affected into the explicit keys and inputs to operate on
+ *
+ * note
+ * - predicate inputs are resolved against the currently cached inputs, into the keys they were cached under
+ *   - keys are used, rather than the decoded inputs, since the decoded inputs may not include everything needed to resolve the cache from input
+ * - keys are deduplicated
+ */
+export const getAffectedEntriesOfTrigger = ({
+  selection,
+  cachedQueryInputs,
+}: {
+  selection: RemoteStateQueryAffectedSelection<any>;
+  cachedQueryInputs: RemoteStateCacheInputEntry[];
+}): { keys: string[]; inputs: any[][] } => {
+  const { inputs: inputsSelection } = selection;
+  const keysFromPredicate = isAFunction(inputsSelection)
+    ? cachedQueryInputs
+        .filter(({ input }) => inputsSelection(input))
+        .map(({ key }) => key)
+    : [];
+  return {
+    keys: [...new Set([...(selection.keys ?? []), ...keysFromPredicate])],
+    inputs: isAFunction(inputsSelection) ? [] : inputsSelection ?? [],
+  };
+};
+
+/**
+ * merges the entries affected by each of several triggers, deduplicating them
+ *
+ * note
+ * - inputs are deduplicated by the key they serialize to
+ * - inputs whose key was already affected by key are dropped, since they target the same entry
+ */
+export const mergeAffectedEntriesOfTriggers = ({
+  affected,
+  serializeKey,
+}: {
+  affected: { keys: string[]; inputs: any[][] }[];
+  serializeKey: KeySerializationMethod<any>;
+}): { keys: string[]; inputs: any[][] } => {
+  const keys = [...new Set(affected.flatMap((entries) => entries.keys))];
+  const keysSeen = new Set(keys);
+  const inputs = affected
+    .flatMap((entries) => entries.inputs)
+    .filter((input) => {
+      const key = serializeKey({ forInput: input });
+      if (keysSeen.has(key)) return false;
+      keysSeen.add(key);
+      return true;
+    });
+  return { keys, inputs };
+};
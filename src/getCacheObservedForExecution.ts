@@ -0,0 +1,63 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import {
+  RemoteStateCacheEventEmitter,
+  RemoteStateCacheEventType,
+} from './RemoteStateCacheEvent';
+
+/**
+ * wraps the cache used for a single execution of a query, so that the hit, miss, and set lifecycle events can be emitted
+ *
+ * note
+ * - only the first `get` of an execution determines whether it was a hit or a miss, since the cache is re-read after it is set, to ensure consistent output
+ * - an execution which bypasses the cached value (e.g., a revalidation or a refetch) is neither a hit nor a miss, since no caller asked for the cached value; only its set is emitted
+ * - setting `undefined` is an invalidation, not a set, so it is not emitted here
+ * - once the execution is dropped (e.g., its key was invalidated mid-flight), its writes are kept local to the execution, so that a value read before a mutation is never written back after it
+ */
+export const getCacheObservedForExecution = <C extends RemoteStateCache>({
+  cache,
+  query,
+  input,
+  emit,
+  execution = { isDropped: false },
+  isBypassingGet = false,
+}: {
+  cache: C;
+  query: string;
+  input: any[];
+  emit: RemoteStateCacheEventEmitter;
+  execution?: { isDropped: boolean };
+  isBypassingGet?: boolean;
+}): C => {
+  let hasBeenRead = isBypassingGet; // the only read of an execution which bypasses the cached value is the re-read after its set
+  const valuesSetAfterDrop: Record<string, string | undefined> = {};
+  const get: RemoteStateCache['get'] = async (key) => {
+    if (execution.isDropped && key in valuesSetAfterDrop)
+      return valuesSetAfterDrop[key]; // so that the dropped execution still resolves the output it produced
+    const value = await cache.get(key);
+    if (!hasBeenRead) {
+      hasBeenRead = true;
+      emit(
+        value !== undefined
+          ? RemoteStateCacheEventType.HIT
+          : RemoteStateCacheEventType.MISS,
+        { query, key, input, mutation: null },
+      );
+    }
+    return value;
+  };
+  const set: RemoteStateCache['set'] = async (key, value, options) => {
+    if (execution.isDropped) {
+      valuesSetAfterDrop[key] = value;
+      return;
+    }
+    await cache.set(key, value, options);
+    if (value !== undefined)
+      emit(RemoteStateCacheEventType.SET, {
+        query,
+        key,
+        input,
+        mutation: null,
+      });
+  };
+  return { get, set, keys: () => cache.keys() } as C;
+};
@@ -0,0 +1,139 @@
+import { RemoteStateCache } from './RemoteStateCache';
+import {
+  RemoteStateCacheEventEmitter,
+  RemoteStateCacheEventMutationCause,
+  RemoteStateCacheEventType,
+} from './RemoteStateCacheEvent';
+import { RemoteStateCacheLogger } from './RemoteStateCacheLogger';
+import { RemoteStateQueryOutputValidator } from './RemoteStateQueryCachingOptions';
+
+/**
+ * gets the reason an output fails a validator, or null if it passes
+ */
+export const getValidationErrorOfOutput = async ({
+  validator,
+  output,
+}: {
+  validator: RemoteStateQueryOutputValidator;
+  output: unknown;
+}): Promise<Error | null> => {
+  try {
+    if (typeof validator !== 'function') {
+      await validator.parse(output);
+      return null;
+    }
+    if (await validator(output)) return null;
+    return new Error('the output did not pass the validator of the query');
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+};
+
+/**
+ * invalidates a cached output which failed the validator of its query, reporting it through events
+ */
+export const invalidateCachedOutputWhichFailedValidation = async ({
+  cache,
+  query,
+  key,
+  input,
+  mutation,
+  error,
+  emit,
+}: {
+  cache: RemoteStateCache;
+  query: string;
+  key: string;
+  input: any[] | null;
+  mutation: RemoteStateCacheEventMutationCause | null;
+  error: Error;
+  emit: RemoteStateCacheEventEmitter;
+}): Promise<void> => {
+  emit(RemoteStateCacheEventType.VALIDATION_FAILED, {
+    query,
+    key,
+    input,
+    mutation,
+    error,
+  });
+  await cache.set(key, undefined);
+  emit(RemoteStateCacheEventType.INVALIDATE, { query, key, input, mutation });
+};
+
+/**
+ * wraps the cache used for a single execution of a query, so that a cached output which fails to deserialize, or fails the validator of the query, is treated as a miss
+ *
+ * relevance
+ * - after a deploy which changes the shape of a query's output, or how it is serialized, the outputs cached before it would otherwise be served in the old shape, or fail every execution until they expire
+ *
+ * note
+ * - only the first `get` of an execution is checked, since the cache is re-read after it is set, with the output the execution just produced
+ * - the cached output is deserialized to be checked, so give the caching wrapper the same `deserialize`, which should reuse that output, to avoid deserializing it twice per hit
+ * - a cached output which fails is invalidated, so that it is not checked again by every execution until it expires
+ */
+export const getCacheValidatedForExecution = <C extends RemoteStateCache>({
+  cache,
+  query,
+  input,
+  emit,
+  logger,
+  validator,
+  deserialize,
+}: {
+  cache: C;
+  query: string;
+  input: any[];
+  emit: RemoteStateCacheEventEmitter;
+  logger: RemoteStateCacheLogger;
+  validator: RemoteStateQueryOutputValidator | undefined;
+  deserialize: (cached: string) => unknown;
+}): C => {
+  let hasBeenRead = false;
+  const get: RemoteStateCache['get'] = async (key) => {
+    const cached = await cache.get(key);
+    if (hasBeenRead || cached === undefined) {
+      hasBeenRead = true;
+      return cached;
+    }
+    hasBeenRead = true;
+    const deserialized = await (async () => {
+      try {
+        return { output: await deserialize(cached) };
+      } catch (error) {
+        return { error };
+      }
+    })();
+    if ('error' in deserialized) {
+      logger.warn(
+        'a remote-state query read a cached output which failed to deserialize. invalidating it and executing the query instead, as if it were a miss',
+        { query, key, error: deserialized.error },
+      );
+      await cache.set(key, undefined);
+      emit(RemoteStateCacheEventType.INVALIDATE, {
+        query,
+        key,
+        input,
+        mutation: null,
+      });
+      return undefined;
+    }
+    const error = validator
+      ? await getValidationErrorOfOutput({
+          validator,
+          output: deserialized.output,
+        })
+      : null;
+    if (!error) return cached;
+    await invalidateCachedOutputWhichFailedValidation({
+      cache,
+      query,
+      key,
+      input,
+      mutation: null,
+      error,
+      emit,
+    });
+    return undefined;
+  };
+  return { ...cache, get };
+};
@@ -1,5 +1,100 @@
 export {
   createRemoteStateCachingContext,
   RemoteStateOperation,
+  WithRemoteStateQueryRegistrationOptions,
+  WithRemoteStateMutationRegistrationOptions,
 } from './createRemoteStateCachingContext';
-export { RemoteStateCache } from './RemoteStateCache';
+export { RemoteStateCache, RemoteStateCacheSets } from './RemoteStateCache';
+export {
+  defaultKeySerializationMethod,
+  legacyKeySerializationMethod,
+} from './defaults';
+export { serializeCanonically } from './serializeCanonically';
+export {
+  defaultRemoteStateCacheValueCodec,
+  RemoteStateCacheValueClassCodec,
+  RemoteStateCacheValueCodec,
+} from './RemoteStateCacheValueCodec';
+export { createRemoteStateCacheValueCodecTyped } from './createRemoteStateCacheValueCodecTyped';
+export {
+  MutationExecutionPhase,
+  MutationExecutionStatus,
+  RemoteStateQueryTriggerType,
+  RemoteStateQueryInvalidationStrategy,
+  RemoteStateQueryRefetchMode,
+  RemoteStateQueryRefetchOptions,
+  DEFAULT_REFETCH_CONCURRENCY,
+  RemoteStateQueryStaleWhileRevalidateOptions,
+  RemoteStateQueryOptimisticRollbackStrategy,
+  RemoteStateQueryOptimisticUpdateTrigger,
+  RemoteStateQuerySeed,
+  RemoteStateQuerySeedTrigger,
+  RemoteStateQueryTagsMethod,
+  RemoteStateMutationTagsMethod,
+  RemoteStateQueryAffectedSelection,
+  RemoteStateTriggerFailurePolicy,
+  RemoteStateCacheKeySerializationMode,
+  RemoteStateQueryOutputValidator,
+} from './RemoteStateQueryCachingOptions';
+export {
+  TriggerExecutionError,
+  RemoteStateTriggerFailure,
+} from './TriggerExecutionError';
+export { RemoteStateCacheInputEntry } from './RemoteStateCacheInputIndex';
+export {
+  RemoteStateCacheSnapshot,
+  RemoteStateCacheSnapshotEntry,
+} from './RemoteStateCacheSnapshot';
+export {
+  RemoteStateCacheBusMessage,
+  RemoteStateCacheBusOptions,
+  RemoteStateCacheBusTransport,
+  isRemoteStateCacheBusMessage,
+} from './RemoteStateCacheBus';
+export {
+  createRemoteStateCacheTwoTier,
+  RemoteStateCacheTwoTier,
+} from './createRemoteStateCacheTwoTier';
+export { createRemoteStateCacheInMemory } from './createRemoteStateCacheInMemory';
+export { createRemoteStateCacheOnDisk } from './createRemoteStateCacheOnDisk';
+export {
+  checkRemoteStateCacheConformance,
+  REMOTE_STATE_CACHE_CONFORMANCE_CHECKS,
+  RemoteStateCacheConformanceCheck,
+  RemoteStateCacheConformanceInput,
+} from './checkRemoteStateCacheConformance';
+export { createRemoteStateCacheBusTransportInMemory } from './createRemoteStateCacheBusTransportInMemory';
+export {
+  createRemoteStateCacheBusTransportOnUnixSocket,
+  RemoteStateCacheBusTransportOnUnixSocket,
+} from './createRemoteStateCacheBusTransportOnUnixSocket';
+export {
+  RemoteStateCacheContextRegistry,
+  RemoteStateCacheContextQueryDescription,
+  RemoteStateCacheContextMutationDescription,
+  RemoteStateCacheContextTriggerDescription,
+} from './createRemoteStateCacheContextRegistry';
+export {
+  RemoteStateCacheContextGraph,
+  RemoteStateCacheContextGraphFormat,
+  getRemoteStateCacheContextGraph,
+} from './describeRemoteStateCacheContextGraph';
+export {
+  RemoteStateCacheEventType,
+  RemoteStateCacheEventSubscribers,
+  RemoteStateCacheKeyEvent,
+  RemoteStateCacheTriggerFiredEvent,
+  RemoteStateCacheValidationFailedEvent,
+  RemoteStateCacheEventMutationCause,
+} from './RemoteStateCacheEvent';
+export { RemoteStateCacheLogger } from './RemoteStateCacheLogger';
+export {
+  RemoteStateQueryCacheStats,
+  RemoteStateQueryLatencyHistogram,
+} from './createRemoteStateCacheStats';
+export {
+  RemoteStateCacheKeyCodec,
+  RemoteStateCacheKeyParts,
+  defaultRemoteStateCacheKeyCodec,
+  createRemoteStateCacheKeyCodec,
+} from './RemoteStateCacheKeyCodec';
@@ -0,0 +1,29 @@
+/**
+ * maps each item with an async method, running at most `limit` of them at the same time
+ *
+ * note
+ * - the outputs are returned in the same order as the items
+ */
+export const mapWithConcurrencyLimit = async <I, O>({
+  items,
+  limit,
+  map,
+}: {
+  items: I[];
+  limit: number;
+  map: (item: I) => Promise<O>;
+}): Promise<O[]> => {
+  const outputs: O[] = [];
+  let indexOfNextItem = 0;
+  const work = async (): Promise<void> => {
+    const index = indexOfNextItem;
+    indexOfNextItem += 1;
+    if (index >= items.length) return;
+    outputs[index] = await map(items[index]!);
+    return work(); // pick up the next item, once this one is done
+  };
+  await Promise.all(
+    [...Array(Math.max(1, Math.min(limit, items.length)))].map(() => work()),
+  );
+  return outputs;
+};
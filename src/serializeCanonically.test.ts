@@ -0,0 +1,62 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
+
+import { serializeCanonically } from './serializeCanonically';
+
+describe('serializeCanonically', () => {
+  it('should serialize equal objects to the same string, regardless of the order of their keys', () => {
+    expect(serializeCanonically({ b: 2, a: { d: [1, 2], c: 'x' } })).toEqual(
+      serializeCanonically({ a: { c: 'x', d: [1, 2] }, b: 2 }),
+    );
+    expect(serializeCanonically({ b: 2, a: 1 })).toEqual('{"a":1,"b":2}');
+  });
+  it('should serialize maps and sets regardless of the order of their entries', () => {
+    expect(
+      serializeCanonically(
+        new Map<string, unknown>([
+          ['b', 2],
+          ['a', new Set([3, 1])],
+        ]),
+      ),
+    ).toEqual(
+      serializeCanonically(
+        new Map<string, unknown>([
+          ['a', new Set([1, 3])],
+          ['b', 2],
+        ]),
+      ),
+    );
+  });
+  it('should tag the types json does not support, so they do not collapse together or with plain data', () => {
+    const serialized = [
+      { at: new Date('2020-01-01T00:00:00.000Z') },
+      { at: '2020-01-01T00:00:00.000Z' },
+      { at: undefined },
+      {},
+      { at: null },
+      { at: NaN },
+      { at: BigInt(7) },
+      { at: 7 },
+      { at: new Set(['a']) },
+      { at: ['a'] },
+      { at: new Map([['a', 1]]) },
+      { at: { a: 1 } },
+    ].map((value) => serializeCanonically(value));
+    expect(new Set(serialized).size).toEqual(serialized.length);
+    expect(serialized[0]).toEqual('{"at":Date("2020-01-01T00:00:00.000Z")}');
+    expect(serialized[6]).toEqual('{"at":BigInt(7)}');
+  });
+  it('should throw a helpful error for circular references', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    expect(() => serializeCanonically(circular)).toThrow(BadRequestError);
+  });
+  it('should skip the properties whose values are methods, like json does', () => {
+    expect(serializeCanonically({ a: 1, getA: () => 1 })).toEqual('{"a":1}');
+  });
+  it('should allow the same object to be referenced more than once, if not circularly', () => {
+    const shared = { a: 1 };
+    expect(serializeCanonically({ x: shared, y: shared })).toEqual(
+      '{"x":{"a":1},"y":{"a":1}}',
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { BadRequestError } from '@ehmpathy/error-fns';
+
+/**
+ * compares two strings by their utf-16 code units, which does not depend on the locale or version of the runtime
+ */
+const compareCodeUnits = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+/**
+ * determines whether a value is not data, but behavior
+ */
+const isMethod = (value: unknown): boolean =>
+  typeof value === 'function' || typeof value === 'symbol';
+
+/**
+ * serializes a value into a canonical string, so that equal values always serialize to the same string
+ *
+ * relevance
+ * - `JSON.stringify` depends on the order in which keys were added to objects, and throws on or collapses the types json does not support, so equal inputs can produce different cache keys and different inputs can produce the same one
+ *
+ * note
+ * - the keys of objects and the entries of maps and sets are sorted by their utf-16 code units, so the output is stable across runtimes
+ * - the types json does not support are tagged explicitly, e.g., `Date("2020-01-01T00:00:00.000Z")`, `BigInt(7)`, `Map([...])`, `Set([...])`, `undefined`, `NaN`
+ *   - tags are not valid json, so a tagged value can never collide with plain data
+ * - properties whose values are functions or symbols are skipped, like json does
+ * - circular references throw a BadRequestError, since they can not be serialized
+ *
+ * for example
+ * - `serializeCanonically({ b: 2, a: 1 }) === serializeCanonically({ a: 1, b: 2 }) === '{"a":1,"b":2}'`
+ */
+export const serializeCanonically = (
+  value: unknown,
+  ancestors: object[] = [],
+): string => {
+  // primitives
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (typeof value === 'string' || typeof value === 'boolean')
+    return JSON.stringify(value);
+  if (typeof value === 'number')
+    return Number.isFinite(value) ? JSON.stringify(value) : String(value); // NaN, Infinity, and -Infinity
+  if (typeof value === 'bigint') return `BigInt(${value.toString()})`;
+  if (typeof value === 'function') return 'Function';
+  if (typeof value === 'symbol') return 'Symbol';
+
+  // references
+  if (ancestors.includes(value))
+    throw new BadRequestError(
+      'can not serialize a value with a circular reference canonically',
+    );
+  const serializeChild = (child: unknown) =>
+    serializeCanonically(child, [...ancestors, value]);
+  if (value instanceof Date)
+    return `Date(${JSON.stringify(
+      Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString(),
+    )})`;
+  if (Array.isArray(value)) return `[${value.map(serializeChild).join(',')}]`;
+  if (value instanceof Map)
+    return `Map([${[...value.entries()]
+      .map(
+        ([key, child]) => `[${serializeChild(key)},${serializeChild(child)}]`,
+      )
+      .sort(compareCodeUnits)
+      .join(',')}])`;
+  if (value instanceof Set)
+    return `Set([${[...value.values()]
+      .map(serializeChild)
+      .sort(compareCodeUnits)
+      .join(',')}])`;
+  return `{${Object.keys(value)
+    .filter((key) => !isMethod((value as Record<string, unknown>)[key])) // skip methods, like json does, since inputs may carry dependencies (e.g., a context with clients)
+    .sort(compareCodeUnits)
+    .map(
+      (key) =>
+        `${JSON.stringify(key)}:${serializeChild(
+          (value as Record<string, unknown>)[key],
+        )}`,
+    )
+    .join(',')}}`;
+};